@@ -51,8 +51,17 @@ export interface Agent {
     learningConfig: {
         /** Rate at which agent incorporates new information (0-1) */
         learningRate: number
-        /** Maximum amount of historical information agent can retain */
+        /** Maximum amount of historical information agent can retain: live persona versions beyond it are archived */
         memoryCapacity: number
+        /** Branches kept besides the current lineage when pruning (defaults: 3 fittest, 2 deepest levels) */
+        retention?: {
+            topBranches?: number
+            recentLevels?: number
+        }
+        /** Base seed of evolution's random choices, to reproduce runs; random if unset */
+        seed?: number
+        /** Chat exchanges sent verbatim with each message before older ones are summarized (default 10) */
+        historyWindow?: number
         /** Initial propensity to explore new information (0-1) */
         initialCuriosityRate: number
         /** Base prompt/instructions for learning behavior */
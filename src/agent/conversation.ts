@@ -0,0 +1,200 @@
+/**
+ * Evolunary Conversations
+ *
+ * Per-user chat threads with an agent, stored in Postgres. The most recent exchanges of a
+ * thread are sent to the model as turns; older ones are folded into a running summary.
+ * @module evolunary/conversation
+ */
+
+import { randomUUID } from 'crypto';
+import sql from '../utils/sql';
+import { ChatMessage, prompt } from '../utils/llm';
+
+/**
+ * How much of a thread accompanies each message
+ */
+export interface ConversationConfig {
+    historyWindow: number;    // Unsummarized exchanges kept before the oldest are summarized
+}
+
+export const defaultConversationConfig: ConversationConfig = {
+    historyWindow: 10
+};
+
+/**
+ * A chat thread between one user and an agent session.
+ */
+export interface Conversation {
+    id: string;
+    agentId: string;
+    sessionId: string;
+    userId: string;
+    summary: string | null;         // Summary of the exchanges no longer sent verbatim
+    summarizedExchanges: number;    // Sequence number of the last exchange in the summary
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * A user message and the agent's reply.
+ */
+export interface ConversationExchange {
+    conversationId: string;
+    seq: number;        // Position in the thread, from 1
+    message: string;
+    reply: string;
+    createdAt: Date;
+}
+
+/**
+ * Context sent with a new message of a thread.
+ */
+export interface ConversationContext {
+    summary: string | null;
+    history: ChatMessage[];
+}
+
+/**
+ * Opens a new thread. It is stored together with its first exchange, so a message that
+ * never gets a reply leaves no empty thread behind.
+ * @param agentId Target agent identifier
+ * @param sessionId Agent session the thread talks to
+ * @param userId User the thread belongs to
+ * @returns Unsaved thread
+ */
+export function newConversation(agentId: string, sessionId: string, userId: string): Conversation {
+    const now = new Date();
+    return {
+        id: randomUUID(),
+        agentId,
+        sessionId,
+        userId,
+        summary: null,
+        summarizedExchanges: 0,
+        createdAt: now,
+        updatedAt: now
+    };
+}
+
+/**
+ * Retrieves a thread.
+ * @param conversationId Thread identifier
+ * @returns The thread, or null if it does not exist
+ */
+export async function getConversation(conversationId: string): Promise<Conversation | null> {
+    const [conversation] = await sql<Conversation[]>`
+        SELECT * FROM conversations WHERE id = ${conversationId}
+    `;
+    return conversation ?? null;
+}
+
+/**
+ * Lists a user's threads with an agent, most recently active first.
+ * @param agentId Target agent identifier
+ * @param userId Owning user identifier
+ */
+export async function getConversations(agentId: string, userId: string): Promise<Conversation[]> {
+    return await sql<Conversation[]>`
+        SELECT * FROM conversations
+        WHERE agent_id = ${agentId} AND user_id = ${userId}
+        ORDER BY updated_at DESC
+    `;
+}
+
+/**
+ * Lists a thread's exchanges in order.
+ * @param conversationId Thread identifier
+ * @param after Only return exchanges after this sequence number
+ */
+export async function getConversationExchanges(conversationId: string, after: number = 0): Promise<ConversationExchange[]> {
+    return await sql<ConversationExchange[]>`
+        SELECT * FROM conversation_exchanges
+        WHERE conversation_id = ${conversationId} AND seq > ${after}
+        ORDER BY seq ASC
+    `;
+}
+
+/**
+ * Appends an exchange to a thread, storing the thread first if this is its first exchange.
+ * @param conversation Thread to append to
+ * @param message User's message
+ * @param reply Agent's reply
+ */
+export async function appendConversationExchange(conversation: Conversation, message: string, reply: string) {
+    await sql.begin(async tx => {
+        await tx`
+            INSERT INTO conversations (id, agent_id, session_id, user_id)
+            VALUES (${conversation.id}, ${conversation.agentId}, ${conversation.sessionId}, ${conversation.userId})
+            ON CONFLICT (id) DO NOTHING
+        `;
+        await tx`
+            INSERT INTO conversation_exchanges (conversation_id, seq, message, reply)
+            SELECT ${conversation.id}, COALESCE(MAX(seq), 0) + 1, ${message}, ${reply}
+            FROM conversation_exchanges
+            WHERE conversation_id = ${conversation.id}
+        `;
+        await tx`UPDATE conversations SET updated_at = NOW() WHERE id = ${conversation.id}`;
+    });
+}
+
+/**
+ * Folds exchanges into a thread's summary with the model
+ * @returns The new summary, or the previous one if the model returned no text
+ */
+async function summarizeExchanges(previous: string | null, exchanges: ConversationExchange[]): Promise<string | null> {
+    const transcript = exchanges
+        .map(exchange => `User: ${exchange.message}\nAgent: ${exchange.reply}`)
+        .join('\n\n');
+
+    const promptText = `
+        ${previous ? `Summary of the conversation so far:\n${previous}\n` : ''}
+        Continuing exchanges:
+        ${transcript}
+
+        Write an updated summary of the whole conversation. Keep the facts, preferences and open
+        questions the agent needs to continue it. Return only the summary.
+        `;
+
+    const response = await prompt("You summarize conversations between a user and an AI agent.", promptText, 1000);
+    return response.content[0].type === 'text' ? response.content[0].text : previous;
+}
+
+/**
+ * Builds the context to send with a thread's next message: its summary and its unsummarized
+ * exchanges as alternating turns. Once more than `historyWindow` exchanges are unsummarized,
+ * the oldest are folded into the summary until half the window remains, so summaries are
+ * written every few messages rather than on each one.
+ * @param conversation Thread to continue
+ * @param config History window
+ */
+export async function prepareConversationContext(
+    conversation: Conversation,
+    config: ConversationConfig = defaultConversationConfig
+): Promise<ConversationContext> {
+    let summary = conversation.summary;
+    let exchanges = await getConversationExchanges(conversation.id, conversation.summarizedExchanges);
+
+    if (exchanges.length > config.historyWindow) {
+        const keep = Math.ceil(config.historyWindow / 2);
+        const folded = exchanges.slice(0, exchanges.length - keep);
+        const summarizedExchanges = folded[folded.length - 1].seq;
+
+        summary = await summarizeExchanges(summary, folded);
+        await sql`
+            UPDATE conversations
+            SET summary = ${summary}, summarized_exchanges = ${summarizedExchanges}, updated_at = NOW()
+            WHERE id = ${conversation.id}
+        `;
+        exchanges = exchanges.slice(folded.length);
+    }
+
+    return {
+        summary,
+        history: exchanges
+            .filter(exchange => exchange.message && exchange.reply)
+            .flatMap((exchange): ChatMessage[] => [
+                { role: 'user', content: exchange.message },
+                { role: 'assistant', content: exchange.reply }
+            ])
+    };
+}
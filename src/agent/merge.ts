@@ -0,0 +1,129 @@
+/**
+ * Evolunary Persona Diff and Merge
+ *
+ * Field-level comparison of persona versions and a three-way merge that combines two
+ * branches of an evolution tree relative to their common ancestor.
+ * @module evolunary/merge
+ */
+
+import { PersonaStateData } from './subagents/persona';
+
+/** Persona fields compared between versions */
+export const PERSONA_FIELDS: (keyof PersonaStateData)[] = [
+    'personalityTraits',
+    'goals',
+    'interests',
+    'background',
+    'skills',
+    'lore',
+    'memories',
+    'learnings',
+    'patterns',
+    'values',
+    'prompt'
+];
+
+/**
+ * A single persona field that differs between two versions.
+ * List fields report the entries added and removed; the prompt reports both values.
+ */
+export interface PersonaFieldChange {
+    field: keyof PersonaStateData;
+    added?: string[];
+    removed?: string[];
+    before?: string | null;
+    after?: string | null;
+}
+
+/** Side taken for a field when merging */
+export type MergeSide = 'ours' | 'theirs';
+
+/**
+ * A field both branches changed in different ways.
+ */
+export interface PersonaConflict {
+    field: keyof PersonaStateData;
+    base: string | null;
+    ours: string | null;
+    theirs: string | null;
+    resolution: MergeSide | null;    // Side taken, or null while unresolved
+}
+
+/**
+ * Outcome of a three-way merge. The data is only usable once every conflict is resolved.
+ */
+export interface PersonaMergeResult {
+    data: PersonaStateData;
+    conflicts: PersonaConflict[];
+    resolved: boolean;
+}
+
+/**
+ * Lists the fields that differ between two persona states.
+ */
+export function diffPersonaFields(before: PersonaStateData | null, after: PersonaStateData): PersonaFieldChange[] {
+    return PERSONA_FIELDS.flatMap((field): PersonaFieldChange[] => {
+        if (field === 'prompt') {
+            const previous = before?.prompt ?? null;
+            return previous === (after.prompt ?? null) ? [] : [{ field, before: previous, after: after.prompt ?? null }];
+        }
+
+        const previous = (before?.[field] as string[]) || [];
+        const next = (after[field] as string[]) || [];
+        const added = next.filter(entry => !previous.includes(entry));
+        const removed = previous.filter(entry => !next.includes(entry));
+        return added.length || removed.length ? [{ field, added, removed }] : [];
+    });
+}
+
+/**
+ * Merges two list fields: entries either side removed are dropped, entries either side
+ * added are appended, ours first. Lists cannot conflict, since an entry of the base can
+ * only be kept or removed and an entry outside it can only be added.
+ */
+function mergeList(base: string[], ours: string[], theirs: string[]): string[] {
+    const kept = base.filter(entry => ours.includes(entry) && theirs.includes(entry));
+    const added = [...ours, ...theirs].filter(entry => !base.includes(entry));
+    return Array.from(new Set([...kept, ...added]));
+}
+
+/**
+ * Combines two persona versions relative to their common ancestor.
+ * A field changed on one side only takes that side's value. The prompt conflicts when both
+ * sides changed it to different text. `resolve` takes one side wholesale for any field,
+ * which also settles conflicts.
+ *
+ * @param base - Common ancestor of both versions
+ * @param resolve - Side to take per field, overriding the merge
+ */
+export function mergePersonas(
+    base: PersonaStateData,
+    ours: PersonaStateData,
+    theirs: PersonaStateData,
+    resolve: Partial<Record<keyof PersonaStateData, MergeSide>> = {}
+): PersonaMergeResult {
+    const data = {} as PersonaStateData;
+    const conflicts: PersonaConflict[] = [];
+
+    PERSONA_FIELDS.forEach(field => {
+        const side = resolve[field];
+
+        if (field === 'prompt') {
+            const [basePrompt, ourPrompt, theirPrompt] = [base, ours, theirs].map(persona => persona.prompt ?? null);
+            if (ourPrompt !== basePrompt && theirPrompt !== basePrompt && ourPrompt !== theirPrompt) {
+                conflicts.push({ field, base: basePrompt, ours: ourPrompt, theirs: theirPrompt, resolution: side ?? null });
+            }
+            const merged = side ? (side === 'ours' ? ourPrompt : theirPrompt)
+                : ourPrompt !== basePrompt ? ourPrompt : theirPrompt;
+            data.prompt = merged ?? '';
+            return;
+        }
+
+        const lists = [base, ours, theirs].map(persona => (persona[field] as string[]) || []);
+        (data[field] as string[]) = side
+            ? [...(side === 'ours' ? lists[1] : lists[2])]
+            : mergeList(lists[0], lists[1], lists[2]);
+    });
+
+    return { data, conflicts, resolved: conflicts.every(conflict => conflict.resolution !== null) };
+}
@@ -0,0 +1,51 @@
+/**
+ * Evolunary Random Sources
+ *
+ * Seedable uniform random sources, so evolution runs that branch and select at random can
+ * be reproduced exactly from their seed.
+ * @module evolunary/random
+ */
+
+import { randomInt } from 'crypto';
+
+/**
+ * Uniform source in [0, 1), interchangeable with Math.random
+ */
+export type RandomSource = () => number;
+
+/** Seeds are unsigned 32-bit integers */
+const SEED_RANGE = 2 ** 32;
+
+/**
+ * Draws a fresh seed from the system's secure random generator
+ */
+export function generateSeed(): number {
+    return randomInt(0, SEED_RANGE);
+}
+
+/**
+ * Creates a deterministic source from a seed (Mulberry32).
+ * The same seed always produces the same sequence.
+ */
+export function seededRandom(seed: number): RandomSource {
+    if (!Number.isInteger(seed) || seed < 0 || seed >= SEED_RANGE) {
+        throw new Error(`Seed must be an unsigned 32-bit integer, got ${seed}`);
+    }
+
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / SEED_RANGE;
+    };
+}
+
+/**
+ * Derives a sequence of seeds from one base seed, e.g. one per evolution cycle
+ */
+export function seedSequence(seed: number): () => number {
+    const random = seededRandom(seed);
+    return () => Math.floor(random() * SEED_RANGE);
+}
@@ -0,0 +1,171 @@
+/**
+ * Evolunary Session Replay
+ *
+ * Rebuilds an agent session as an ordered sequence of frames, one per state transition in
+ * `execution_logs`, each carrying the persona versions from `agent_personas` that were written
+ * while the transition's target state was active and the fields they changed.
+ * @module evolunary/replay
+ */
+
+import { ExecutionLog, getExecutionLogs } from '../stateMachine/audit';
+import { StateConfiguration } from '../stateMachine/chart';
+import { PersonaFieldChange, diffPersonaFields } from './merge';
+import { AgentPersona, StoredAgentPersona, getAgentPersonas, resolvePersonaParent } from './subagents/persona';
+
+/**
+ * A persona version written during the session, compared with its parent.
+ */
+export interface PersonaVersionChange {
+    version: string;
+    parentVersion: string | null;
+    parentInferred: boolean;   // Rows without a stored parent use the closest version one level up
+    createdAt: Date;
+    changes: PersonaFieldChange[];
+}
+
+/**
+ * One step of a replay: a transition and the persona versions written in its target state.
+ */
+export interface ReplayFrame {
+    index: number;
+    logId: string;
+    timestamp: number;               // Proof timestamp (ms since epoch)
+    from: string;
+    to: string;
+    action: string;
+    params: any;
+    configuration?: StateConfiguration;
+    stateHash: string;
+    createdVersions: PersonaVersionChange[];
+    currentVersion: string | null;   // Newest persona version after this frame
+}
+
+/**
+ * Full reconstruction of a session.
+ */
+export interface SessionReplay {
+    agentId: string;
+    sessionId: string;
+    initialVersions: PersonaVersionChange[];   // Versions written before the first transition
+    frames: ReplayFrame[];
+}
+
+const versionOf = (persona: AgentPersona) => `${persona.nodeLevel}@${persona.nodeVersion}`;
+
+/**
+ * Compares every persona with its parent version.
+ */
+function describeVersions(personas: StoredAgentPersona[]): Map<string, PersonaVersionChange> {
+    const changes = new Map<string, PersonaVersionChange>();
+
+    personas.forEach(persona => {
+        const { parent, inferred } = resolvePersonaParent(persona, personas);
+
+        changes.set(persona.id, {
+            version: versionOf(persona),
+            parentVersion: parent ? versionOf(parent) : null,
+            parentInferred: inferred,
+            createdAt: new Date(persona.createdAt),
+            changes: diffPersonaFields(parent, persona)
+        });
+    });
+
+    return changes;
+}
+
+/**
+ * Builds a replay from already loaded rows.
+ * A persona version belongs to the newest transition that happened before it was written.
+ */
+export function buildReplay(
+    agentId: string,
+    sessionId: string,
+    logs: ExecutionLog[],
+    personas: StoredAgentPersona[]
+): SessionReplay {
+    const ordered = [...personas].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const changes = describeVersions(ordered);
+
+    const initialVersions: PersonaVersionChange[] = [];
+    const frames: ReplayFrame[] = logs.map((log, index) => ({
+        index,
+        logId: String(log.id),
+        timestamp: log.proof.timestamp,
+        from: log.fromState,
+        to: log.toState,
+        action: log.action,
+        params: log.params,
+        configuration: log.proof.configuration,
+        stateHash: log.proof.stateHash,
+        createdVersions: [],
+        currentVersion: null
+    }));
+
+    ordered.forEach(persona => {
+        const createdAt = new Date(persona.createdAt).getTime();
+        let owner: ReplayFrame | undefined;
+        for (const frame of frames) {
+            if (frame.timestamp > createdAt) break;
+            owner = frame;
+        }
+        (owner ? owner.createdVersions : initialVersions).push(changes.get(persona.id)!);
+    });
+
+    let currentVersion = initialVersions.length ? initialVersions[initialVersions.length - 1].version : null;
+    frames.forEach(frame => {
+        if (frame.createdVersions.length) {
+            currentVersion = frame.createdVersions[frame.createdVersions.length - 1].version;
+        }
+        frame.currentVersion = currentVersion;
+    });
+
+    return { agentId, sessionId, initialVersions, frames };
+}
+
+/**
+ * Loads and rebuilds a session's replay from the database.
+ */
+export async function buildSessionReplay(agentId: string, sessionId: string): Promise<SessionReplay> {
+    const [logs, personas] = await Promise.all([
+        getExecutionLogs(agentId, sessionId),
+        getAgentPersonas(agentId, sessionId)
+    ]);
+    return buildReplay(agentId, sessionId, logs, personas);
+}
+
+/**
+ * Steps forward and backward through a replay. Position -1 is the session start,
+ * before any transition.
+ */
+export class ReplayCursor {
+    private position = -1;
+
+    constructor(private replay: SessionReplay) {}
+
+    get index(): number {
+        return this.position;
+    }
+
+    get length(): number {
+        return this.replay.frames.length;
+    }
+
+    /** Frame at the cursor, or null at the session start */
+    current(): ReplayFrame | null {
+        return this.replay.frames[this.position] ?? null;
+    }
+
+    /** Moves to a frame, clamped to the session start and the last frame */
+    seek(index: number): ReplayFrame | null {
+        this.position = Math.max(-1, Math.min(this.replay.frames.length - 1, index));
+        return this.current();
+    }
+
+    next(): ReplayFrame | null {
+        return this.seek(this.position + 1);
+    }
+
+    previous(): ReplayFrame | null {
+        return this.seek(this.position - 1);
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Evolunary Selection Strategies
+ *
+ * Picks which version of an evolution tree to branch from, and which new child becomes
+ * current, from node fitness scores. Strategies trade exploiting versions that scored well
+ * against exploring versions that have rarely been tried.
+ * @module evolunary/selection
+ */
+
+/**
+ * What a strategy knows about a node.
+ */
+export interface SelectionCandidate {
+    version: string;
+    level: number;
+    fitness: number | null;    // Mean of the scores recorded for the node; null if never scored
+    visits: number;            // Times the node was selected to branch from
+}
+
+/**
+ * Picks one candidate and returns its index.
+ * @param random - Uniform source in [0, 1), so runs can be seeded
+ */
+export type SelectionStrategy = (candidates: SelectionCandidate[], random: () => number) => number;
+
+export type SelectionStrategyName = 'greedy' | 'tournament' | 'softmax' | 'ucb' | 'random';
+
+export const SELECTION_STRATEGIES: SelectionStrategyName[] = ['greedy', 'tournament', 'softmax', 'ucb', 'random'];
+
+/**
+ * Tuning for the named strategies.
+ */
+export interface SelectionOptions {
+    tournamentSize?: number;   // Contestants per tournament (default 3)
+    temperature?: number;      // Softmax temperature; lower is greedier (default 0.25)
+    exploration?: number;      // UCB exploration constant (default √2)
+}
+
+/** Unscored nodes compete as if they scored 0 */
+const fitnessOf = (candidate: SelectionCandidate) => candidate.fitness ?? 0;
+
+/**
+ * Returns the index of a best candidate, breaking ties at random.
+ */
+function argmax(values: number[], random: () => number): number {
+    const best = Math.max(...values);
+    const ties = values.flatMap((value, index) => value === best ? [index] : []);
+    return ties[Math.floor(random() * ties.length)];
+}
+
+function assertCandidates(candidates: SelectionCandidate[]): void {
+    if (!candidates.length) {
+        throw new Error('Cannot select from an empty set of candidates');
+    }
+}
+
+/**
+ * Picks uniformly at random, ignoring fitness.
+ */
+export function randomSelection(): SelectionStrategy {
+    return (candidates, random) => {
+        assertCandidates(candidates);
+        return Math.floor(random() * candidates.length);
+    };
+}
+
+/**
+ * Picks the fittest candidate.
+ */
+export function greedySelection(): SelectionStrategy {
+    return (candidates, random) => {
+        assertCandidates(candidates);
+        return argmax(candidates.map(fitnessOf), random);
+    };
+}
+
+/**
+ * Draws `size` distinct candidates at random and picks the fittest of them.
+ */
+export function tournamentSelection(size: number = 3): SelectionStrategy {
+    if (!Number.isInteger(size) || size < 1) {
+        throw new Error('Tournament size must be a positive integer');
+    }
+
+    return (candidates, random) => {
+        assertCandidates(candidates);
+        const pool = candidates.map((_, index) => index);
+        const contestants: number[] = [];
+        while (contestants.length < size && pool.length) {
+            contestants.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+        }
+        return contestants[argmax(contestants.map(index => fitnessOf(candidates[index])), random)];
+    };
+}
+
+/**
+ * Picks with probability proportional to exp(fitness / temperature).
+ */
+export function softmaxSelection(temperature: number = 0.25): SelectionStrategy {
+    if (!(temperature > 0)) {
+        throw new Error('Softmax temperature must be positive');
+    }
+
+    return (candidates, random) => {
+        assertCandidates(candidates);
+        const scores = candidates.map(fitnessOf);
+        const top = Math.max(...scores);
+        const weights = scores.map(score => Math.exp((score - top) / temperature));
+        let remaining = random() * weights.reduce((sum, weight) => sum + weight, 0);
+
+        for (let index = 0; index < weights.length; index++) {
+            remaining -= weights[index];
+            if (remaining < 0) return index;
+        }
+        return weights.length - 1;
+    };
+}
+
+/**
+ * Upper confidence bound (UCB1): fitness plus a bonus that shrinks as a candidate is visited.
+ * Candidates never visited are tried first.
+ */
+export function ucbSelection(exploration: number = Math.SQRT2): SelectionStrategy {
+    return (candidates, random) => {
+        assertCandidates(candidates);
+        const total = candidates.reduce((sum, candidate) => sum + candidate.visits, 0);
+        return argmax(candidates.map(candidate => candidate.visits === 0
+            ? Infinity
+            : fitnessOf(candidate) + exploration * Math.sqrt(Math.log(total) / candidate.visits)
+        ), random);
+    };
+}
+
+/**
+ * Builds a strategy by name.
+ */
+export function selectionStrategy(name: SelectionStrategyName, options: SelectionOptions = {}): SelectionStrategy {
+    switch (name) {
+        case 'greedy':
+            return greedySelection();
+        case 'tournament':
+            return tournamentSelection(options.tournamentSize);
+        case 'softmax':
+            return softmaxSelection(options.temperature);
+        case 'ucb':
+            return ucbSelection(options.exploration);
+        case 'random':
+            return randomSelection();
+        default:
+            throw new Error(`Unknown selection strategy ${name}`);
+    }
+}
@@ -1,11 +1,25 @@
 /**
  * Core imports for cryptographic operations and Merkle tree functionality
  */
-import { createPrivateKey, createSign, createVerify } from 'crypto';
-import { MerkleTree } from 'merkletreejs';
-import SHA256 from 'crypto-js/sha256';
+import postgres from 'postgres';
 import sql from '../utils/sql';
 import { StateMachineLogger } from 'src/stateMachine/logger';
+import { Proof, hashTransition } from '../stateMachine/proof';
+import { ProofSigner, VerificationKey, createProofSigner, verifySignature } from '../stateMachine/signer';
+import { KEY_ROTATION_ACTION, KeyRotation, exportVerificationKey, recordKeyRotation } from '../stateMachine/keys';
+import { AccumulatorFrontier, MerkleAccumulator, MerkleProofStep, loadFrontier, saveFrontier } from '../stateMachine/accumulator';
+import { ExecutionLog, getExecutionLogs } from '../stateMachine/audit';
+import { MachineDefinition, defineMachine } from '../stateMachine/definition';
+import { MAIN_REGION, StateChart, StateChartStructure, StateConfiguration } from '../stateMachine/chart';
+import { DWELL_TIMEOUT_ACTION, DwellExpiry, DwellTimeouts, Watchdog } from '../stateMachine/watchdog';
+import { SwarmPersistence } from '../swarm/persistence';
+import { machineToDot, machineToMermaid } from '../stateMachine/graph';
+import { OperationLock, OperationPreemptedError, OverlapPolicy, RunningOperation } from '../stateMachine/operations';
+import { EventPayloads, EventTable, MachineEvent, StateContexts, eventsFrom, resolveEvent } from '../stateMachine/events';
+import { Mutex } from 'async-mutex';
+import { EventEmitter } from 'events';
+
+export type { Proof, EventPayloads, EventTable, MachineEvent, StateContexts };
 
 /**
  * Represents a transition between states
@@ -16,6 +30,7 @@ export interface StateTransition<State extends string> {
   to: State;      // Destination state
   action: string;      // Action triggering the transition
   params: any;         // Additional parameters for the transition
+  contentHash?: string; // Content hash the transition commits to in its proof
 }
 
 /**
@@ -27,26 +42,57 @@ export interface StateTransitionAction {
 }
 
 /**
- * Cryptographic proof of a state transition
- * Implements a Merkle tree-based verification system
+ * Context handed to guards and handlers while a transition runs
+ */
+export interface TransitionContext<State extends string> extends StateTransition<State> {
+  result?: any;        // Value returned by the action handler, if one ran
+}
+
+/**
+ * A transition after it was signed and persisted, as delivered to subscribers
+ */
+export interface CommittedTransition<State extends string> extends StateTransition<State> {
+  agentId: string;
+  sessionId: string;
+  proof: Proof;        // Carries the active configuration after the transition
+}
+
+/**
+ * Callback invoked for every committed transition
+ */
+export type TransitionListener<State extends string> = (transition: CommittedTransition<State>) => void;
+
+/**
+ * Predicate that can veto a transition by returning false
+ */
+export type TransitionGuard<State extends string> =
+  (context: TransitionContext<State>) => boolean | Promise<boolean>;
+
+/**
+ * Interface for handling state-specific logic
+ * Runs in order: guards -> exit -> action -> proof -> entry
+ * Exit and entry hooks run for every nested state left or entered by the transition
  */
-export interface Proof {
-  stateHash: string;     // Hash of the current state
-  prevHash: string;      // Hash of the previous state
-  merkleRoot: string;    // Root of the Merkle tree
-  merkleProof: string[]; // Proof path in the Merkle tree
-  signature: string;     // Cryptographic signature
-  timestamp: number;     // Timestamp of proof generation
+export interface StateHandler<State extends string> {
+  entry?: (context: TransitionContext<State>) => void | Promise<void>;   // Logic executed on entering state
+  exit?: (context: TransitionContext<State>) => void | Promise<void>;    // Logic executed on exiting state
+  guards?: Partial<Record<State, TransitionGuard<State>>>;               // Vetoes for leaving towards a target state
+  actions?: Record<string, (context: TransitionContext<State>) => any>;  // Named actions handled while leaving this state
 }
 
-// /**
-//  * Interface for handling state-specific logic
-//  */
-// export interface StateHandler {
-//   entry?: (data?: any) => Promise<StateTransition>;    // Logic executed on entering state
-//   exit?: (data?: any) => Promise<StateTransition>;     // Logic executed on exiting state
-//   actions?: Record<string, (data: any) => Promise<StateTransition>>; // State-specific actions
-// }
+/**
+ * Optional behaviour declared alongside a machine's transition table
+ * Nested states and orthogonal regions are declared through the statechart structure
+ */
+export interface StateMachineOptions<State extends string, Events extends EventPayloads = EventPayloads>
+  extends StateChartStructure<State> {
+  handlers?: Partial<Record<State, StateHandler<State>>>;
+  errorState?: State;  // Where handler failures are routed; defaults to 'ERROR' when defined
+  timeouts?: DwellTimeouts<State>;  // Maximum dwell time per state, enforced by the watchdog
+  events?: EventTable<State, Events>;  // Targets of the events accepted by send()
+  idleState?: State;   // Where failed or preempted operations return to; defaults to 'READY' when defined
+  overlap?: OverlapPolicy;  // Default policy of run() when another operation holds the machine (default 'queue')
+}
 
 /**
  * Defines valid state transitions
@@ -71,82 +117,128 @@ export interface Proof {
  */
 class BaseState<State extends string> {
   protected stateHistory: string[] = [];        // History of state hashes
-  protected merkleTree: MerkleTree;            // Merkle tree for verification
+  protected accumulator: MerkleAccumulator;    // Append-only Merkle accumulator for verification
   protected id: string;                        // Unique identifier
   protected sessionId: string;                 // Session identifier
-  protected privateKey: string;                // Private key for signing
+  protected signer: ProofSigner;               // Signing backend for proofs
 
-  constructor(id: string, sessionId: string, privateKey: string) {
+  constructor(id: string, sessionId: string, privateKey: string | ProofSigner) {
     this.id = id;
     this.sessionId = sessionId;
-    this.privateKey = privateKey;
-    this.merkleTree = new MerkleTree([], SHA256);
+    this.signer = typeof privateKey === 'string' ? createProofSigner(privateKey) : privateKey;
+    this.accumulator = new MerkleAccumulator();
   }
 
   /**
    * Creates a deterministic hash of a state transition
+   * The timestamp is passed in so the same value can be carried in the proof
    */
-  protected hashState(state: StateTransition<State>): string {
-    const stateStr = JSON.stringify({
-      timestamp: Date.now(),
+  protected hashState(state: StateTransition<State>, timestamp: number, configuration?: StateConfiguration<State>): string {
+    return hashTransition({
+      agentId: this.id,
+      sessionId: this.sessionId,
+      timestamp,
       from: state.from,
       to: state.to,
       action: state.action,
-      params: state.params
+      params: state.params,
+      configuration,
+      contentHash: state.contentHash
     });
-    return SHA256(stateStr).toString();
   }
 
   /**
    * Generates cryptographic proof of a state transition
-   * Includes Merkle tree proof and digital signature
+   * Includes Merkle tree proof and digital signature, plus the active configuration when given.
+   * The history is left untouched until recordProof(), so a proof that fails to persist
+   * leaves no trace; the returned frontier is the accumulator's after the proof.
    */
-  protected generateProof(state: StateTransition<State>): Proof {
-    const stateHash = this.hashState(state);
-    this.stateHistory.push(stateHash);
-    
-    const leaves = [...this.stateHistory];
-    this.merkleTree = new MerkleTree(leaves,SHA256);
+  protected generateProof(
+    state: StateTransition<State>,
+    configuration?: StateConfiguration<State>
+  ): { proof: Proof; frontier: AccumulatorFrontier } {
+    const timestamp = Date.now();
+    const stateHash = this.hashState(state, timestamp, configuration);
 
-    const merkleRoot = this.merkleTree.getHexRoot();
-    const merkleProof = this.merkleTree.getHexProof(stateHash);
+    const { root: merkleRoot, proof: merkleProof, frontier } = this.accumulator.preview(stateHash);
 
-    return {
+    const proof: Proof = {
       stateHash,
-      prevHash: this.stateHistory[this.stateHistory.length - 2] || '',
+      prevHash: this.stateHistory[this.stateHistory.length - 1] || '',
       merkleRoot,
       merkleProof,
       signature: this.sign(stateHash),
-      timestamp: Date.now()
+      algorithm: this.signer.algorithm,
+      keyId: this.signer.keyId,
+      timestamp,
+      agentId: this.id,
+      sessionId: this.sessionId,
+      configuration,
+      contentHash: state.contentHash
     };
+    return { proof, frontier };
   }
 
   /**
-   * Signs data using the private key
+   * Appends a persisted proof to the hash history and Merkle accumulator
    */
-  private sign(hash: string): string {
-    const privateKeyObject = createPrivateKey({
-      key: Buffer.from(this.privateKey, 'hex'),
-      format: 'der',
-      type: 'pkcs8'
-    });
+  protected recordProof(proof: Proof): void {
+    this.stateHistory.push(proof.stateHash);
+    this.accumulator.append(proof.stateHash);
+  }
+
+  /**
+   * Rebuilds the hash history and Merkle accumulator from persisted proofs
+   * Fails if the rebuilt root disagrees with the stored proofs or the persisted frontier
+   */
+  protected async restoreHistory(logs: ExecutionLog[]): Promise<void> {
+    const hashes = logs.map(log => log.proof.stateHash);
+    const accumulator = MerkleAccumulator.fromLeaves(hashes);
+    const root = accumulator.getRoot();
+
+    if (root !== logs[logs.length - 1].proof.merkleRoot) {
+      throw new Error(`Persisted proof chain for session ${this.sessionId} does not match its Merkle root`);
+    }
+
+    const frontier = await loadFrontier(this.id, this.sessionId);
+    if (frontier && frontier.size === hashes.length &&
+        MerkleAccumulator.fromFrontier(frontier).getRoot() !== root) {
+      throw new Error(`Persisted Merkle frontier for session ${this.sessionId} is inconsistent`);
+    }
 
-    const signer = createSign('SHA256');
-    signer.update(hash);
-    return signer.sign(privateKeyObject, 'hex');
+    this.stateHistory = hashes;
+    this.accumulator = accumulator;
+  }
+
+  /**
+   * Produces an inclusion proof for any historical transition against the current Merkle root
+   */
+  public getInclusionProof(index: number): { stateHash: string; merkleRoot: string; merkleProof: MerkleProofStep[] } {
+    return {
+      stateHash: this.stateHistory[index],
+      merkleRoot: this.accumulator.getRoot(),
+      merkleProof: this.accumulator.getProof(index)
+    };
+  }
+
+  /**
+   * Signs data with the machine's signer
+   */
+  private sign(hash: string): string {
+    return this.signer.sign(hash);
   }
 
   /**
-   * Verifies a signature using the public key
+   * Verifies a signature using the public key, with the algorithm of the machine's signer
    */
-  public verifySignature(hash: string, signature: string, publicKey: string): boolean {
-    const verify = createVerify('SHA256');
-    verify.update(hash);
-    return verify.verify(publicKey, Buffer.from(signature, 'hex'));
+  public verifySignature(hash: string, signature: string, publicKey: VerificationKey): boolean {
+    return verifySignature(this.signer.algorithm, hash, signature, publicKey);
   }
 
   /**
    * Broadcasts state changes to a network (to be implemented)
+   * Persists the proof row and the accumulator frontier after it in one transaction,
+   * together with any writes `within` adds, so they commit or fail as one
    */
   protected async broadcast(data: {
     agentId: string,
@@ -154,22 +246,34 @@ class BaseState<State extends string> {
     fromState: string,
     toState: string,
     action: string,
-    proof: Proof
-  }): Promise<void> {
+    params?: any,
+    proof: Proof,
+    frontier: AccumulatorFrontier
+  }, within?: (tx: postgres.TransactionSql) => Promise<void>): Promise<void> {
     // Implement relay network broadcast
 
-    let res = await sql`
-        INSERT INTO execution_logs (agent_id, session_id, from_state, to_state, action, proof) 
-        VALUES (${data.agentId}, ${data.sessionId}, ${data.fromState}, ${data.toState}, ${data.action}, ${sql.json({
-          stateHash: data.proof.stateHash,
-          prevHash: data.proof.prevHash,
-          merkleRoot: data.proof.merkleRoot,
-          merkleProof: data.proof.merkleProof,
-          signature: data.proof.signature,
-          timestamp: data.proof.timestamp
-        })})
-    `;
-    
+    await sql.begin(async tx => {
+      await tx`
+          INSERT INTO execution_logs (agent_id, session_id, from_state, to_state, action, params, proof) 
+          VALUES (${data.agentId}, ${data.sessionId}, ${data.fromState}, ${data.toState}, ${data.action}, ${data.params === undefined ? null : sql.json(data.params)}, ${sql.json({
+            stateHash: data.proof.stateHash,
+            prevHash: data.proof.prevHash,
+            merkleRoot: data.proof.merkleRoot,
+            merkleProof: data.proof.merkleProof,
+            signature: data.proof.signature,
+            algorithm: data.proof.algorithm,
+            keyId: data.proof.keyId,
+            timestamp: data.proof.timestamp,
+            agentId: data.proof.agentId,
+            sessionId: data.proof.sessionId,
+            configuration: data.proof.configuration,
+            contentHash: data.proof.contentHash
+          })})
+      `;
+
+      await saveFrontier(data.agentId, data.sessionId, data.frontier, tx);
+      await within?.(tx);
+    });
   }
 }
 
@@ -184,19 +288,128 @@ export interface StateNode<State extends string> {
 /**
  * Main state machine implementation for autonomous agents
  * Manages state transitions and maintains transition history
+ * Supports nested states and orthogonal regions: one leaf is active per region,
+ * and a transition declared on a compound state applies to all of its descendants
+ * Transitions are driven either by target state with to() or by typed event with send();
+ * every active state holds the payload of the transition that entered it as its context
  */
-export class StateMachine<State extends string> extends BaseState<State> {
-    private currentState: State;
+export class StateMachine<
+  State extends string,
+  Events extends EventPayloads = EventPayloads,
+  Contexts extends StateContexts<State> = StateContexts<State>
+> extends BaseState<State> {
+    private active: Map<string, State> = new Map();   // Key: region, Value: active leaf
+    private chart: StateChart<State>;
     private stateNodes: Map<State, StateNode<State>> = new Map();
+    private handlers: Map<State, StateHandler<State>> = new Map();
+    private events: EventTable<State, Events>;
+    private contexts: Map<State, any> = new Map();     // Key: active state, Value: payload it was entered with
+    private errorState: State | null;
     private logger: StateMachineLogger<State>;
-    
-    constructor(id: string, sessionId: string, privateKey: string, states: State[], transitions: Record<State, State[]>, currentState: State, logger?: StateMachineLogger<State>) {
+    private commitLock = new Mutex();                  // Keeps proofs and persisted rows in the same order
+    private watchdog: Watchdog<State>;
+    private definition: MachineDefinition<State>;
+    private persistence = new SwarmPersistence();
+    private notifier = new EventEmitter();             // Emits 'transition' once a proof is persisted
+    private operations = new OperationLock();           // Serializes multi-transition operations
+    private idleState: State | null;
+    private overlap: OverlapPolicy;
+
+    constructor(
+      id: string,
+      sessionId: string,
+      privateKey: string | ProofSigner,
+      states: State[],
+      transitions: Record<State, State[]>,
+      currentState: State,
+      logger?: StateMachineLogger<State>,
+      options: StateMachineOptions<State, Events> = {}
+    ) {
       super(id, sessionId, privateKey);
       this.logger = logger || new StateMachineLogger<State>();
       this.initializeStates(states, transitions);
-      this.currentState = currentState;
+      this.chart = new StateChart<State>(states, options);
+      this.definition = {
+        name: id,
+        initial: currentState,
+        states,
+        transitions,
+        errorState: options.errorState,
+        parents: options.parents,
+        initialChildren: options.initialChildren,
+        regions: options.regions,
+        timeouts: options.timeouts,
+        events: options.events
+      };
+      this.events = options.events || {};
+      this.active.set(MAIN_REGION, this.chart.resolveLeaf(currentState));
+      this.chart.regions.forEach(region => {
+        this.active.set(region, this.chart.resolveLeaf(this.chart.regionInitial(region)!));
+      });
+      this.errorState = options.errorState ?? (states.includes('ERROR' as State) ? 'ERROR' as State : null);
+      this.idleState = options.idleState ?? (states.includes('READY' as State) ? 'READY' as State : null);
+      this.overlap = options.overlap ?? 'queue';
+      this.watchdog = new Watchdog<State>(options.timeouts || {}, expiry => {
+        this.expire(expiry).catch(error => {
+          console.error(`[StateMachine] Watchdog transition out of ${expiry.state} failed:`, error);
+        });
+      });
+
+      Object.entries(options.handlers || {}).forEach(([state, handler]) => {
+        this.handle(state as State, handler as StateHandler<State>);
+      });
+    }
+
+    /**
+     * Creates a machine from a declarative definition after validating it
+     * Throws MachineDefinitionError if the definition has any issues
+     */
+    static fromDefinition<
+      State extends string,
+      Events extends EventPayloads = EventPayloads,
+      Contexts extends StateContexts<State> = StateContexts<State>
+    >(
+      definition: MachineDefinition<State>,
+      id: string,
+      sessionId: string,
+      privateKey: string | ProofSigner,
+      logger?: StateMachineLogger<State>,
+      options: StateMachineOptions<State, Events> = {}
+    ): StateMachine<State, Events, Contexts> {
+      defineMachine(definition);
+      const machine = new StateMachine<State, Events, Contexts>(
+        id,
+        sessionId,
+        privateKey,
+        definition.states,
+        definition.transitions,
+        definition.initial,
+        logger,
+        {
+          errorState: definition.errorState,
+          parents: definition.parents,
+          initialChildren: definition.initialChildren,
+          regions: definition.regions,
+          timeouts: definition.timeouts,
+          events: definition.events as EventTable<State, Events>,
+          ...options
+        }
+      );
+      machine.definition.name = definition.name;
+      return machine;
     }
-  
+
+    /**
+     * Registers the handler for a state, replacing any previous one
+     */
+    handle(state: State, handler: StateHandler<State>): this {
+      if (!this.stateNodes.has(state)) {
+        throw new Error(`Cannot register handler for unknown state ${state}`);
+      }
+      this.handlers.set(state, handler);
+      return this;
+    }
+
     /**
      * Initializes the state machine graph
      * Creates nodes and sets up valid transitions
@@ -209,12 +422,12 @@ export class StateMachine<State extends string> extends BaseState<State> {
           transitions: new Map(),
         });
       });
-  
+
       // Wire up transitions based on validTransitions
       Object.entries(transitions).forEach(([fromState, toStates]) => {
         const node = this.stateNodes.get(fromState as State);
         if (!node) return;
-  
+
         (toStates as State[]).forEach(toState => {
           node.transitions.set(toState, {
             from: fromState as State,
@@ -227,62 +440,521 @@ export class StateMachine<State extends string> extends BaseState<State> {
 
     //   console.log(this.stateNodes)
     }
-  
+
+    /**
+     * Finds the state on the active path, innermost first, that declares a transition to the target
+     */
+    private findSource(leaf: State, target: State): State | undefined {
+      return this.chart.ancestry(leaf).find(state => this.stateNodes.get(state)?.transitions.has(target));
+    }
+
     /**
      * Executes a state transition if valid
-     * Generates and logs cryptographic proof of transition
+     * The transition runs in the region owning the target state; a compound target is
+     * resolved to its initial child. Runs the guard of the state declaring the transition,
+     * the exit hooks of every state left and the named action handler, generates and logs
+     * cryptographic proof of the transition, then runs the entry hooks of every state entered.
+     * A throwing hook or action routes the machine to the error state before rethrowing.
+     * The source is checked again under the commit lock, so of two concurrent transitions
+     * from the same state only the first to commit succeeds.
+     * @param contentHash Hash of content the transition commits to, signed as part of its proof
+     */
+    async to(state: State, action: string, data?: any, contentHash?: string): Promise<Proof> {
+        const operation = this.operations.current();
+        if (operation?.preemptedBy) {
+          throw new OperationPreemptedError(operation.name, operation.preemptedBy);
+        }
+
+        const region = this.chart.regionOf(state);
+        const from = this.active.get(region)!;
+        const source = this.findSource(from, state);
+
+        if (source === undefined) {
+          throw new Error(`Invalid transition from ${from} to ${state}`);
+        }
+
+        const context: TransitionContext<State> = {
+            from,
+            to: this.chart.resolveLeaf(state),
+            action,
+            params: data,
+            contentHash
+        };
+        const { exited, entered } = this.chart.pathDelta(context.from, context.to);
+
+        const guard = this.handlers.get(source)?.guards?.[state];
+        if (guard && !(await guard(context))) {
+          throw new Error(`Transition from ${context.from} to ${state} vetoed by guard`);
+        }
+
+        try {
+          for (const exitedState of exited) {
+            await this.handlers.get(exitedState)?.exit?.(context);
+          }
+          const actionHandler = this.chart.ancestry(from)
+            .map(activeState => this.handlers.get(activeState)?.actions?.[action])
+            .find(Boolean);
+          if (actionHandler) {
+            context.result = await actionHandler(context);
+          }
+        } catch (error) {
+          await this.routeToError(context, error);
+          throw error;
+        }
+
+        const proof = await this.commit(context, state);
+
+        try {
+          for (const enteredState of entered) {
+            await this.handlers.get(enteredState)?.entry?.(context);
+          }
+        } catch (error) {
+          await this.routeToError(context, error);
+          throw error;
+        }
+
+        return proof;
+      }
+
+    /**
+     * Runs a multi-transition operation with the machine to itself
+     * Operations never interleave: depending on the policy, an operation that finds another
+     * one running waits for it, fails with TransitionBusyError, or preempts it, in which case
+     * the running operation's next transition throws OperationPreemptedError. Transitions made
+     * outside run() are not serialized against operations.
+     * If the operation throws and leaves the main region away from the idle state, the machine
+     * is returned there through the error state before the next operation starts.
+     *
+     * @param name - Operation name, recorded in the actions of recovery transitions
+     * @param operation - Work that drives the machine, typically from and back to the idle state
+     * @param policy - Overlap policy; defaults to the machine's configured policy
+     */
+    async run<T>(name: string, operation: () => Promise<T>, policy: OverlapPolicy = this.overlap): Promise<T> {
+        const { operation: running, release } = await this.operations.acquire(name, policy);
+        try {
+          return await operation();
+        } catch (error) {
+          await this.recover(running, error);
+          throw error;
+        } finally {
+          release();
+        }
+    }
+
+    /**
+     * Returns the operation currently holding the machine, if any
+     */
+    getRunningOperation(): RunningOperation | null {
+        return this.operations.current();
+    }
+
+    /**
+     * Returns the main region to the idle state after an operation failed or was preempted
+     * Records `<operation>_PREEMPTED` or `<operation>_FAILED` into the error state, unless the
+     * machine is already there, then `<operation>_RECOVERED` into the idle state. No hooks run.
+     * Recovery is best-effort; its own failures are logged and leave the machine where it stopped.
      */
-    async to(state: State, action: string, data?: any): Promise<Proof> {
-        const currentNode = this.stateNodes.get(this.currentState);
-        const nextNode = this.stateNodes.get(state);
-          
-        if (!currentNode || !currentNode.transitions.has(state)) {
-          throw new Error(`Invalid transition from ${this.currentState} to ${state}`);
+    private async recover(operation: RunningOperation, error: any): Promise<void> {
+        const idle = this.idleState;
+        if (!idle || this.chart.regionOf(idle) !== MAIN_REGION) return;
+
+        try {
+          await this.commitLock.runExclusive(async () => {
+            let current = this.active.get(MAIN_REGION)!;
+            if (this.chart.ancestry(current).includes(idle)) return;
+
+            const errorState = this.errorState;
+            if (errorState && current !== errorState && this.chart.regionOf(errorState) === MAIN_REGION &&
+                this.findSource(current, errorState) !== undefined) {
+              await this.commitUnlocked({
+                  from: current,
+                  to: this.chart.resolveLeaf(errorState),
+                  action: `${operation.name}_${operation.preemptedBy ? 'PREEMPTED' : 'FAILED'}`,
+                  params: {
+                    state: current,
+                    preemptedBy: operation.preemptedBy,
+                    error: error?.message ?? String(error)
+                  }
+              });
+              current = this.active.get(MAIN_REGION)!;
+            }
+
+            if (this.findSource(current, idle) !== undefined) {
+              await this.commitUnlocked({
+                  from: current,
+                  to: this.chart.resolveLeaf(idle),
+                  action: `${operation.name}_RECOVERED`,
+                  params: null
+              });
+            }
+          });
+        } catch (recoveryError) {
+          console.error(`[StateMachine] Could not recover from ${operation.name}:`, recoveryError);
         }
-    
-        let proof = this.generateProof({ 
-            from: this.currentState,
-            to: state,
-            action: action,
-            params: data
+    }
+
+    /**
+     * Sends an event to the machine
+     * The target is looked up in the event table along each region's active path, innermost
+     * state first, starting with the main region; the first match runs as a transition to
+     * that target whose action is the event type and whose params are the event payload
+     * @param contentHash Hash of content the transition commits to, signed as part of its proof
+     */
+    async send(event: MachineEvent<Events>, contentHash?: string): Promise<Proof> {
+        for (const leaf of this.active.values()) {
+          const target = resolveEvent(this.chart, this.events, leaf, event.type);
+          if (target !== undefined) {
+            return this.to(target, event.type, event.payload, contentHash);
+          }
+        }
+
+        throw new Error(`Event ${event.type} is not handled in ${Array.from(this.active.values()).join(', ')}`);
+    }
+
+    /**
+     * Signs, logs and persists a transition, then moves its region to the target leaf
+     * The proof records the full active configuration after the transition. The transition
+     * is validated under the commit lock, as its region may have moved since it started.
+     * @param target - Declared target, before compound states are resolved to their leaf
+     */
+    private async commit(transition: StateTransition<State>, target: State = transition.to): Promise<Proof> {
+        return this.commitLock.runExclusive(() => {
+          const current = this.active.get(this.chart.regionOf(transition.to))!;
+          if (current !== transition.from || this.findSource(current, target) === undefined) {
+            throw new Error(`Invalid transition from ${current} to ${target}`);
+          }
+          return this.commitUnlocked(transition);
         });
+    }
 
+    /**
+     * Commit body; callers must hold the commit lock
+     * The proof row and frontier are persisted first; the hash history, the accumulator and
+     * the active configuration only change once they have committed.
+     * Re-arms the watchdog for every state left or entered, unless the transition is
+     * bookkeeping that does not actually leave its state
+     * @param within - Further writes to make in the same transaction as the proof row
+     */
+    private async commitUnlocked(
+        transition: StateTransition<State>,
+        rearm: boolean = true,
+        within?: (tx: postgres.TransactionSql, proof: Proof) => Promise<void>
+    ): Promise<Proof> {
+        const region = this.chart.regionOf(transition.to);
+        const leaves = new Map(this.active).set(region, transition.to);
+        const { proof, frontier } = this.generateProof(transition, this.chart.configuration(leaves));
+
+        await this.broadcast({
+            agentId: this.id,
+            sessionId: this.sessionId,
+            fromState: transition.from,
+            toState: transition.to,
+            action: transition.action,
+            params: transition.params,
+            proof: proof,
+            frontier
+        }, within && (tx => within(tx, proof)));
+
+        this.recordProof(proof);
         this.logger.logTransition(
             this.id,
             this.sessionId,
-            this.currentState,
-            state,
-            action,
+            transition.from,
+            transition.to,
+            transition.action,
             proof
         );
 
-        await this.broadcast({
+        this.active.set(region, transition.to);
+        this.notifier.emit('transition', {
             agentId: this.id,
             sessionId: this.sessionId,
-            fromState: this.currentState,
-            toState: state,
-            action: action,
-            proof: proof
+            from: transition.from,
+            to: transition.to,
+            action: transition.action,
+            params: transition.params,
+            proof
         });
+        if (!rearm) return proof;
 
-        this.currentState = state;
+        const { exited, entered } = this.chart.pathDelta(transition.from, transition.to);
+        exited.forEach(state => this.watchdog.disarm(state));
+        entered.forEach(state => this.watchdog.arm(state));
+        this.enterContexts(transition);
 
         return proof;
-      }
-  
+    }
+
+    /**
+     * Drops the contexts of the states a transition leaves and gives every state it enters
+     * the transition's params as context
+     */
+    private enterContexts(transition: StateTransition<State>): void {
+        const { exited, entered } = this.chart.pathDelta(transition.from, transition.to);
+        exited.forEach(state => this.contexts.delete(state));
+        entered.forEach(state => this.contexts.set(state, transition.params));
+    }
+
+    /**
+     * Fires a signed timeout transition out of a state that exceeded its dwell time
+     * Moves the state's region to the configured fallback or the error state, runs that
+     * state's entry hook best-effort and records the cause in swarm_logs
+     */
+    private async expire(expiry: DwellExpiry<State>): Promise<void> {
+        const target = expiry.fallback ?? this.errorState;
+
+        const transition = await this.commitLock.runExclusive(async () => {
+          // The state may have been left while waiting for the lock
+          if (!target || !this.isActive(expiry.state)) return null;
+
+          const region = this.chart.regionOf(expiry.state);
+          const from = this.active.get(region)!;
+          if (this.findSource(from, target) === undefined) {
+            console.error(`[StateMachine] ${expiry.state} timed out but ${from} cannot move to ${target}`);
+            return null;
+          }
+
+          const timeout: TransitionContext<State> = {
+              from,
+              to: this.chart.resolveLeaf(target),
+              action: DWELL_TIMEOUT_ACTION,
+              params: { state: expiry.state, after: expiry.after, enteredAt: expiry.enteredAt }
+          };
+          const proof = await this.commitUnlocked(timeout);
+          return { timeout, proof };
+        });
+        if (!transition) return;
+
+        const { timeout, proof } = transition;
+        try {
+          await this.handlers.get(target!)?.entry?.(timeout);
+        } catch (entryError) {
+          console.error(`[StateMachine] ${target} entry handler failed:`, entryError);
+        }
+
+        await this.persistence.addLog({
+            agentId: this.id,
+            type: 'error',
+            message: `State ${expiry.state} exceeded its dwell time of ${expiry.after}ms`,
+            metadata: {
+              sessionId: this.sessionId,
+              state: expiry.state,
+              from: timeout.from,
+              to: timeout.to,
+              after: expiry.after,
+              enteredAt: new Date(expiry.enteredAt).toISOString(),
+              stateHash: proof.stateHash
+            }
+        });
+    }
+
+    /**
+     * Hands signing over to a new key
+     * Records a self-transition on the main region's active leaf, signed by the outgoing key,
+     * whose params carry the successor's public key. Closes the outgoing key's validity window
+     * in the registry in the same transaction, then signs every later proof with the new key.
+     * No hooks run and dwell timers keep running, as the machine does not leave its state.
+     */
+    async rotateKey(next: ProofSigner, generation: number): Promise<Proof> {
+        return this.commitLock.runExclusive(async () => {
+            const current = this.active.get(MAIN_REGION)!;
+            const rotation: KeyRotation = {
+                keyId: next.keyId,
+                algorithm: next.algorithm,
+                publicKey: exportVerificationKey(next.publicKey),
+                generation,
+                previousKeyId: this.signer.keyId
+            };
+
+            // The registry learns the successor in the same transaction as the proof introducing it
+            const proof = await this.commitUnlocked({
+                from: current,
+                to: current,
+                action: KEY_ROTATION_ACTION,
+                params: rotation
+            }, false, (tx, proof) => recordKeyRotation(this.id, rotation, new Date(proof.timestamp), tx));
+
+            this.signer = next;
+
+            return proof;
+        });
+    }
+
     /**
-     * Returns array of valid states that can be transitioned to
+     * Subscribes to committed transitions, including timeouts, failures and key rotations
+     * Listeners run synchronously after the proof is persisted; a throwing listener is
+     * logged and never fails the transition
+     * @returns Function that removes the subscription
      */
-    getAvailableTransitions(): State[] {
-      const node = this.stateNodes.get(this.currentState);
-      return node ? Array.from(node.transitions.keys()) : [];
+    onTransition(listener: TransitionListener<State>): () => void {
+        const guarded = (transition: CommittedTransition<State>) => {
+          try {
+            listener(transition);
+          } catch (error) {
+            console.error('[StateMachine] Transition listener failed:', error);
+          }
+        };
+        this.notifier.on('transition', guarded);
+        return () => {
+          this.notifier.off('transition', guarded);
+        };
     }
-  
+
+    /**
+     * Stops the watchdog; pending dwell timers are cancelled
+     */
+    dispose(): void {
+        this.watchdog.clear();
+    }
+
+    /**
+     * Moves the failing region to the error state after a handler failure
+     * Only applies when the error state lives in that region and is reachable from its active leaf
+     * Skips hooks of the failing state; the error state's entry hook runs best-effort
+     */
+    private async routeToError(context: TransitionContext<State>, error: any): Promise<void> {
+        const errorState = this.errorState;
+        const region = this.chart.regionOf(context.to);
+
+        const failure = await this.commitLock.runExclusive(async () => {
+          const current = this.active.get(region)!;
+          if (!errorState || current === errorState || this.chart.regionOf(errorState) !== region ||
+              this.findSource(current, errorState) === undefined) {
+            return null;
+          }
+
+          const failure: TransitionContext<State> = {
+              from: current,
+              to: this.chart.resolveLeaf(errorState),
+              action: `${context.action}_FAILED`,
+              params: { from: context.from, to: context.to, error: error?.message ?? String(error) }
+          };
+          await this.commitUnlocked(failure);
+          return failure;
+        });
+        if (!failure) return;
+
+        try {
+          await this.handlers.get(errorState)?.entry?.(failure);
+        } catch (entryError) {
+          console.error(`[StateMachine] ${errorState} entry handler failed:`, entryError);
+        }
+    }
+
+    /**
+     * Resumes the machine from the session's proofs in execution_logs
+     * Restores the active configuration, hash history and Merkle root so new proofs extend the existing chain
+     * @returns true if persisted history was found and restored
+     */
+    async restore(): Promise<boolean> {
+        const logs = await getExecutionLogs(this.id, this.sessionId);
+        if (!logs.length) return false;
+
+        const last = logs[logs.length - 1];
+        const leaves = new Map(this.active);
+        if (last.proof.configuration) {
+          Object.entries(last.proof.configuration).forEach(([region, path]) => {
+            leaves.set(region, path[path.length - 1] as State);
+          });
+        } else {
+          leaves.set(this.chart.regionOf(last.toState as State), last.toState as State);
+        }
+
+        leaves.forEach((leaf, region) => {
+          if (!this.stateNodes.has(leaf) || this.chart.regionOf(leaf) !== region) {
+            throw new Error(`Persisted state ${leaf} is not defined for this machine`);
+          }
+        });
+
+        await this.restoreHistory(logs);
+        this.active = leaves;
+        this.contexts.clear();
+        logs
+          .filter(log => log.action !== KEY_ROTATION_ACTION)
+          .forEach(log => this.enterContexts({
+            from: log.fromState as State,
+            to: log.toState as State,
+            action: log.action,
+            params: log.params
+          }));
+
+        // Dwell time is measured from the restore, as the original entry time is not persisted
+        this.watchdog.clear();
+        leaves.forEach(leaf => this.chart.ancestry(leaf).forEach(state => this.watchdog.arm(state)));
+
+        return true;
+    }
+
+    /**
+     * Returns array of valid states that can be transitioned to from a region's active leaf
+     * Includes transitions inherited from enclosing compound states
+     */
+    getAvailableTransitions(region: string = MAIN_REGION): State[] {
+      const leaf = this.active.get(region);
+      if (!leaf) return [];
+
+      const targets = new Set<State>();
+      this.chart.ancestry(leaf).forEach(state => {
+        this.stateNodes.get(state)?.transitions.forEach((_, target) => targets.add(target));
+      });
+      return Array.from(targets);
+    }
+
+    /**
+     * Returns the event types that send() accepts from a region's active leaf
+     */
+    getAvailableEvents(region: string = MAIN_REGION): (keyof Events & string)[] {
+      const leaf = this.active.get(region);
+      return leaf ? eventsFrom(this.chart, this.events, leaf) as (keyof Events & string)[] : [];
+    }
+
+    /**
+     * Returns the context an active state was entered with, or undefined if the state is not active
+     */
+    getContext<S extends State>(state: S): Contexts[S] | undefined {
+      return this.contexts.get(state);
+    }
+
+    /**
+     * Returns the active leaf state of a region (the main region by default)
+     */
+    getCurrentState(region: string = MAIN_REGION): State {
+      return this.active.get(region)!;
+    }
+
+    /**
+     * Returns the full active configuration: the active path of every region, outermost first
+     */
+    getConfiguration(): StateConfiguration<State> {
+      return this.chart.configuration(this.active);
+    }
+
+    /**
+     * Checks whether a state is active in any region, either as a leaf or as an enclosing compound state
+     */
+    isActive(state: State): boolean {
+      return Array.from(this.active.values()).some(leaf => this.chart.ancestry(leaf).includes(state));
+    }
+
+    /**
+     * Returns the machine's transition table and statechart structure as a definition
+     */
+    getDefinition(): MachineDefinition<State> {
+      return this.definition;
+    }
+
+    /**
+     * Renders the machine as a Graphviz digraph with the active configuration highlighted
+     */
+    toDot(): string {
+      return machineToDot(this.definition, this.getConfiguration());
+    }
+
     /**
-     * Returns the current state of the machine
+     * Renders the machine as a Mermaid state diagram with the active configuration highlighted
      */
-    getCurrentState(): State {
-      return this.currentState;
+    toMermaid(): string {
+      return machineToMermaid(this.definition, this.getConfiguration());
     }
 
     /**
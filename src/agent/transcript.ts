@@ -0,0 +1,60 @@
+/**
+ * Evolunary Model Transcripts
+ *
+ * Records the model calls an operation makes, prompts and raw outputs, so the operation can
+ * be audited and replayed later without calling the model again.
+ * @module evolunary/transcript
+ */
+
+/**
+ * One model call as it was made.
+ */
+export interface ModelCall {
+    step: string;              // Name of the step that made the call, e.g. 'evolution'
+    system: string;
+    prompt: string;
+    maxTokens: number;
+    output: string | null;     // Raw text of the reply; null if it held no text
+}
+
+/**
+ * Model calls of one operation, in the order they were made.
+ */
+export class ModelTranscript {
+    private calls: ModelCall[];
+    private consumed = new Set<number>();
+
+    /**
+     * @param calls - Calls recorded earlier, to replay them
+     */
+    constructor(calls: ModelCall[] = []) {
+        this.calls = [...calls];
+    }
+
+    /**
+     * Appends a call
+     */
+    record(call: ModelCall): void {
+        this.calls.push(call);
+    }
+
+    /**
+     * Returns the output of the earliest call of a step not yet replayed
+     * @throws If the transcript holds no further call of the step
+     */
+    output(step: string): string | null {
+        const index = this.calls.findIndex((call, i) => call.step === step && !this.consumed.has(i));
+        if (index === -1) {
+            throw new Error(`Transcript has no recorded ${step} call left to replay`);
+        }
+        this.consumed.add(index);
+        return this.calls[index].output;
+    }
+
+    /**
+     * Returns every call, in order
+     */
+    toJSON(): ModelCall[] {
+        return [...this.calls];
+    }
+}
@@ -1,21 +1,84 @@
+import { createHash } from 'crypto';
+import { HIGHLIGHT_COLOR, dotQuote } from '../stateMachine/graph';
+import { canonicalize } from '../utils/canonical';
+import { RandomSource } from './random';
+import { SelectionStrategy, randomSelection } from './selection';
+
 export interface TreeNodeJSON<T> {
     version: string;
     level: number;
     data: T;
     children: TreeNodeJSON<T>[];
+    fitness?: number | null;    // Mean recorded score
+    evaluations?: number;       // Number of recorded scores
+    visits?: number;            // Times selected to branch from
+    mergedFrom?: string | null; // Version merged into this node, if it is a merge
+    hash?: string;              // Content hash; recomputed on load
+}
+
+/**
+ * Content hash of a node: SHA-256 over the canonical encoding of its data and its parent's hash,
+ * so a hash pins down the node's data and its whole lineage
+ */
+export function hashNodeContent<T>(data: T, parentHash: string | null): string {
+    return createHash('sha256').update(canonicalize({ data, parent: parentHash }), 'utf8').digest('hex');
 }
 
 export interface TreeStateJSON<T> {
     root: TreeNodeJSON<T>;
     maxLevel: number;
     currentNode: string | null; // stores version of current node
+    issued?: Record<number, number>; // Highest version number issued per level, including pruned nodes
+}
+
+/**
+ * A child produced by a branch callback, optionally with an initial fitness score
+ */
+export interface BranchData<T> {
+    data: T;
+    version: string;
+    fitness?: number;
+}
+
+/**
+ * Where branch() grows the tree and how it picks the parent and the new current node
+ */
+export interface BranchOptions {
+    parent?: SelectionStrategy;         // Picks the node to branch from (default: random)
+    child?: SelectionStrategy;          // Picks which new child becomes current (default: random)
+    levels?: 'max' | 'all' | number[];  // Levels the parent is drawn from (default: the deepest level)
+    parentVersion?: string;             // Branch from this node instead of selecting one
+    numChildren?: number;               // Children to request (default: 1 to 4 at random)
+}
+
+/**
+ * What prune() keeps. The current node's lineage is always kept.
+ */
+export interface RetentionPolicy {
+    topBranches: number;    // Fittest nodes kept together with their ancestors
+    recentLevels: number;   // Deepest levels kept in full
+    maxNodes?: number;      // Cap on the nodes kept; unprotected leaves with the lowest fitness go first
+}
+
+/**
+ * A subtree removed by prune(), with the node it hung from
+ */
+export interface PrunedBranch<T> {
+    parentVersion: string;
+    root: TreeNodeJSON<T>;
 }
 
 interface ITreeNode<T> {
     version: string;
     children: TreeNode<T>[];
+    parent: TreeNode<T> | null;
     level: number;
     data: T;
+    fitness: number | null;
+    evaluations: number;
+    visits: number;
+    mergedFrom: string | null;
+    hash: string;
     addChild(child: TreeNode<T>): void;
     toJSON(): TreeNodeJSON<T>;
 }
@@ -23,33 +86,66 @@ interface ITreeNode<T> {
 class TreeNode<T> implements ITreeNode<T> {
     version: string;
     children: TreeNode<T>[];
+    parent: TreeNode<T> | null = null;
     level: number;
     data: T;
+    fitness: number | null = null;
+    evaluations: number = 0;
+    visits: number = 0;
+    mergedFrom: string | null = null;
+    hash: string;
 
-    constructor(level: number, version: number, data: T) {
+    constructor(level: number, version: number, data: T, parentHash: string | null = null) {
         this.version = `${level}@${version}`;
         this.children = [];
         this.level = level;
         this.data = data;
+        this.hash = hashNodeContent(data, parentHash);
+    }
+
+    /**
+     * Recomputes the hashes of this node and its descendants after its data changed
+     */
+    rehash(): void {
+        this.hash = hashNodeContent(this.data, this.parent?.hash ?? null);
+        this.children.forEach(child => child.rehash());
     }
 
     addChild(child: TreeNode<T>): void {
+        child.parent = this;
         this.children.push(child);
     }
 
+    /**
+     * Folds a score into the node's mean fitness
+     */
+    recordFitness(score: number): void {
+        this.fitness = ((this.fitness ?? 0) * this.evaluations + score) / (this.evaluations + 1);
+        this.evaluations++;
+    }
+
     toJSON(): TreeNodeJSON<T> {
         return {
             version: this.version,
             level: this.level,
             data: this.data,
-            children: this.children.map(child => child.toJSON())
+            children: this.children.map(child => child.toJSON()),
+            fitness: this.fitness,
+            evaluations: this.evaluations,
+            visits: this.visits,
+            mergedFrom: this.mergedFrom,
+            hash: this.hash
         };
     }
 
-    static fromJSON<T>(data: TreeNodeJSON<T>): TreeNode<T> {
+    static fromJSON<T>(data: TreeNodeJSON<T>, parentHash: string | null = null): TreeNode<T> {
         const [level, version] = data.version.split('@').map(Number);
-        const node = new TreeNode(level, version, data.data);
-        node.children = data.children.map(childData => TreeNode.fromJSON(childData));
+        const node = new TreeNode(level, version, data.data, parentHash);
+        node.fitness = data.fitness ?? null;
+        node.evaluations = data.evaluations ?? 0;
+        node.visits = data.visits ?? 0;
+        node.mergedFrom = data.mergedFrom ?? null;
+        data.children.forEach(childData => node.addChild(TreeNode.fromJSON(childData, node.hash)));
         return node;
     }
 }
@@ -60,6 +156,15 @@ interface IVersionedTree<T> {
     maxLevel: number;
     currentNode: TreeNode<T>;
     branchRandomly(batchedData: (numChildren: number, childVersions: string[]) => {data: T, version: string}[]): string
+    setRandom(random: RandomSource): void;
+    branch(batchedData: (numChildren: number, childVersions: string[]) => BranchData<T>[], options?: BranchOptions): string
+    recordFitness(version: string, score: number): void;
+    commonAncestor(a: string, b: string): TreeNode<T>;
+    addNode(parentVersion: string, data: T, mergedFrom?: string): TreeNode<T>;
+    nextChildVersion(parentVersion: string): string;
+    checkout(version: string): TreeNode<T>;
+    prune(policy: RetentionPolicy): PrunedBranch<T>[];
+    graft(branch: PrunedBranch<T>): TreeNode<T>;
     print(): void;
     save(): string;
     load(jsonTree: TreeStateJSON<T>): void;
@@ -72,8 +177,15 @@ export class VersionedTree<T> implements IVersionedTree<T> {
     levelMap: Map<number, TreeNode<T>[]>;
     maxLevel: number;
     currentNode: TreeNode<T>;
+    private issued = new Map<number, number>();
+    private random: RandomSource;
 
-    constructor({ initialData, treeState }: { initialData?: T, treeState?: TreeStateJSON<T> }) {
+    /**
+     * @param random - Source for every random choice branch() makes (default: Math.random),
+     * so a tree grown from a seeded source can be grown again identically
+     */
+    constructor({ initialData, treeState, random }: { initialData?: T, treeState?: TreeStateJSON<T>, random?: RandomSource }) {
+        this.random = random ?? Math.random;
 
         if (treeState) {
             this.levelMap = new Map<number, TreeNode<T>[]>();
@@ -104,7 +216,7 @@ export class VersionedTree<T> implements IVersionedTree<T> {
         });
     }
 
-    private findNodeByVersion(version: string): TreeNode<T> | null {
+    findNodeByVersion(version: string): TreeNode<T> | null {
         const searchNode = (node: TreeNode<T>): TreeNode<T> | null => {
             if (node.version === version) {
                 return node;
@@ -122,51 +234,287 @@ export class VersionedTree<T> implements IVersionedTree<T> {
         return this.currentNode;
     }
 
+    /**
+     * Replaces the random source, e.g. with a freshly seeded one before each evolution cycle
+     */
+    setRandom(random: RandomSource): void {
+        this.random = random;
+    }
+
+    /**
+     * Makes an existing version the current node without changing the tree
+     * @returns The new current node
+     */
+    checkout(version: string): TreeNode<T> {
+        const node = this.findNodeByVersion(version);
+        if (!node) {
+            throw new Error(`Version ${version} not found`);
+        }
+        this.currentNode = node;
+        return node;
+    }
+
+    /**
+     * Branches from a random node at the deepest level and makes a random new child current
+     */
     branchRandomly(batchedData: (numChildren: number, childVersions: string[]) => {data: T, version: string}[]): string {
-        const currentLevelNodes = this.levelMap.get(this.maxLevel);
-        
-        if (!currentLevelNodes || currentLevelNodes.length === 0) {
+        return this.branch(batchedData);
+    }
+
+    /**
+     * Adds a generation of children under a selected parent and makes one of them current
+     * The parent is drawn from the given levels with the parent strategy, or named directly,
+     * so the tree can grow from any level. New versions are numbered after the existing
+     * nodes of their level.
+     * @param batchedData Produces the children's data for the requested versions
+     * @returns Version of the new current node
+     */
+    branch(
+        batchedData: (numChildren: number, childVersions: string[]) => BranchData<T>[],
+        options: BranchOptions = {}
+    ): string {
+        const random = this.random;
+        const parent = this.selectParent(options);
+
+        const newLevel = parent.level + 1;
+        const newLevelNodes = this.nodesAtLevel(newLevel);
+
+        const numChildren = options.numChildren ?? Math.floor(random() * 4) + 1;
+        const nextVersion = this.nextVersion(newLevel);
+        const versions = Array.from({ length: numChildren }, (_, i) => `${newLevel}@${nextVersion + i}`);
+
+        const childrenData = batchedData(numChildren, versions);
+        if (!childrenData.length) {
+            throw new Error("Branch produced no children");
+        }
+
+        const children = childrenData.map(({ data, version, fitness }) => {
+            const newNode = new TreeNode(newLevel, +version.split('@')[1], data, parent.hash);
+            if (fitness !== undefined) newNode.recordFitness(fitness);
+            parent.addChild(newNode);
+            newLevelNodes.push(newNode);
+            return newNode;
+        });
+        parent.visits++;
+
+        this.currentNode = children[(options.child ?? randomSelection())(children, random)];
+        this.maxLevel = Math.max(this.maxLevel, newLevel);
+        return this.currentNode.version;
+    }
+
+    /**
+     * Picks the node branch() would grow from: the named parent version, or a node
+     * drawn from the allowed levels with the parent strategy
+     */
+    selectParent(options: BranchOptions = {}): TreeNode<T> {
+        if (options.parentVersion !== undefined) {
+            const found = this.findNodeByVersion(options.parentVersion);
+            if (!found) {
+                throw new Error(`Version ${options.parentVersion} not found`);
+            }
+            return found;
+        }
+
+        const candidates = this.nodesAtLevels(options.levels ?? 'max');
+        if (!candidates.length) {
             throw new Error("No nodes found at current level");
         }
+        return candidates[(options.parent ?? randomSelection())(candidates, this.random)];
+    }
 
-        const randomParentIndex = Math.floor(Math.random() * currentLevelNodes.length);
-        const randomParent = currentLevelNodes[randomParentIndex];
-        
-        const newLevel = this.maxLevel + 1;
-        if (!this.levelMap.has(newLevel)) {
-            this.levelMap.set(newLevel, []);
+    /**
+     * Records a fitness score for a node; the node keeps the mean of its scores
+     */
+    recordFitness(version: string, score: number): void {
+        if (!Number.isFinite(score)) {
+            throw new Error(`Fitness score must be a finite number, got ${score}`);
+        }
+        const node = this.findNodeByVersion(version);
+        if (!node) {
+            throw new Error(`Version ${version} not found`);
+        }
+        node.recordFitness(score);
+    }
+
+    /**
+     * Finds the deepest node both versions descend from
+     */
+    commonAncestor(a: string, b: string): TreeNode<T> {
+        const nodeA = this.findNodeByVersion(a);
+        const nodeB = this.findNodeByVersion(b);
+        if (!nodeA || !nodeB) {
+            throw new Error(`Version ${nodeA ? b : a} not found`);
+        }
+
+        const ancestorsOfA = new Set<TreeNode<T>>();
+        for (let node: TreeNode<T> | null = nodeA; node; node = node.parent) {
+            ancestorsOfA.add(node);
+        }
+        for (let node: TreeNode<T> | null = nodeB; node; node = node.parent) {
+            if (ancestorsOfA.has(node)) return node;
+        }
+        throw new Error(`Versions ${a} and ${b} share no ancestor`);
+    }
+
+    /**
+     * Adds a single child under a given node and makes it current, numbered after the
+     * existing nodes of its level
+     * @param mergedFrom Version merged into the parent to produce this node
+     */
+    addNode(parentVersion: string, data: T, mergedFrom?: string): TreeNode<T> {
+        const parent = this.findNodeByVersion(parentVersion);
+        if (!parent) {
+            throw new Error(`Version ${parentVersion} not found`);
+        }
+
+        const level = parent.level + 1;
+        const node = new TreeNode(level, this.nextVersion(level), data, parent.hash);
+        node.mergedFrom = mergedFrom ?? null;
+        parent.addChild(node);
+        this.nodesAtLevel(level).push(node);
+
+        this.currentNode = node;
+        this.maxLevel = Math.max(this.maxLevel, level);
+        return node;
+    }
+
+    /**
+     * Version addNode() would give the next child of a node, so the child can be stored
+     * before it is added
+     */
+    nextChildVersion(parentVersion: string): string {
+        const parent = this.findNodeByVersion(parentVersion);
+        if (!parent) {
+            throw new Error(`Version ${parentVersion} not found`);
         }
+        return `${parent.level + 1}@${this.nextVersion(parent.level + 1)}`;
+    }
 
-        const newLevelNodes = this.levelMap.get(newLevel);
-        if (!newLevelNodes) {
-            throw new Error("Failed to create new level in map");
+    /**
+     * Returns the node list of a level, creating it if the level is empty
+     */
+    private nodesAtLevel(level: number): TreeNode<T>[] {
+        if (!this.levelMap.has(level)) {
+            this.levelMap.set(level, []);
         }
+        return this.levelMap.get(level)!;
+    }
 
-        const numChildren = Math.floor(Math.random() * 4) + 1;
+    /**
+     * Next free version number on a level, never reusing the number of a pruned node
+     */
+    private nextVersion(level: number): number {
+        const numbers = (this.levelMap.get(level) || []).map(node => +node.version.split('@')[1]);
+        return Math.max(this.issued.get(level) ?? 0, ...numbers) + 1;
+    }
 
-        const versions = Array.from({ length: numChildren }, (_, i) => {
-            return `${newLevel}@${i + 1}`;
+    /**
+     * Marks versions as issued so they are never handed out again, e.g. versions held in an archive
+     */
+    reserveVersions(versions: string[]): void {
+        versions.forEach(version => {
+            const [level, number] = version.split('@').map(Number);
+            this.issued.set(level, Math.max(this.issued.get(level) ?? 0, number));
         });
+    }
+
+    /**
+     * Removes every node the retention policy does not keep and returns the removed subtrees
+     * Kept: the current node's lineage, the lineages of the fittest nodes and the deepest
+     * levels. With a node cap, unprotected leaves are then dropped, lowest fitness and oldest
+     * level first, until the tree fits. Kept nodes always keep their ancestors, so whole
+     * subtrees are removed.
+     */
+    prune(policy: RetentionPolicy): PrunedBranch<T>[] {
+        const nodes = Array.from(this.levelMap.values()).flat();
+        const keep = new Set<TreeNode<T>>();
+        const keepLineage = (node: TreeNode<T>) => {
+            for (let current: TreeNode<T> | null = node; current && !keep.has(current); current = current.parent) {
+                keep.add(current);
+            }
+        };
 
+        keepLineage(this.currentNode);
+        nodes
+            .filter(node => node.fitness !== null)
+            .sort((a, b) => b.fitness! - a.fitness!)
+            .slice(0, policy.topBranches)
+            .forEach(keepLineage);
+        const protectedNodes = new Set(keep);
+        nodes.filter(node => node.level > this.maxLevel - policy.recentLevels).forEach(keepLineage);
+
+        if (policy.maxNodes !== undefined) {
+            while (keep.size > policy.maxNodes) {
+                const leaves = Array.from(keep).filter(node =>
+                    !protectedNodes.has(node) && !node.children.some(child => keep.has(child)));
+                if (!leaves.length) break;
+                leaves.sort((a, b) => (a.fitness ?? 0) - (b.fitness ?? 0) || a.level - b.level);
+                keep.delete(leaves[0]);
+            }
+        }
 
-        const childrenData = batchedData(numChildren, versions);
+        const removed = nodes.filter(node => !keep.has(node));
+        this.reserveVersions(removed.map(node => node.version));
 
-        // Create children with mapped data
-        for (let i = 0; i < childrenData.length; i++) {
-            // console.log(childrenData[i]);
-            let {data, version} = childrenData[i];
-            const newNode = new TreeNode(newLevel, +version.split('@')[1], data);
-            randomParent.addChild(newNode);
-            newLevelNodes.push(newNode);
+        const pruned = removed
+            .filter(node => keep.has(node.parent!))
+            .map(node => {
+                const parent = node.parent!;
+                parent.children = parent.children.filter(child => child !== node);
+                node.parent = null;
+                return { parentVersion: parent.version, root: node.toJSON() };
+            });
+
+        this.reindex();
+        return pruned;
+    }
+
+    /**
+     * Reattaches a subtree removed by prune() under its original parent
+     * @returns Root of the restored subtree
+     */
+    graft(branch: PrunedBranch<T>): TreeNode<T> {
+        const parent = this.findNodeByVersion(branch.parentVersion);
+        if (!parent) {
+            throw new Error(`Version ${branch.parentVersion} not found`);
         }
 
-        // Select random child as current node
-        const randomChildIndex = Math.max(0, Math.min(numChildren - 1, Math.floor(Math.random() * numChildren)));
-        // console.log('randomChildIndex', numChildren, randomChildIndex, randomParent.children.length);
-        this.currentNode = randomParent.children[randomChildIndex % randomParent.children.length];
+        const node = TreeNode.fromJSON(branch.root, parent.hash);
+        const collect = (current: TreeNode<T>): TreeNode<T>[] => [current, ...current.children.flatMap(collect)];
+        const taken = collect(node).find(current => this.findNodeByVersion(current.version));
+        if (taken) {
+            throw new Error(`Version ${taken.version} already exists`);
+        }
 
-        this.maxLevel = newLevel;
-        return this.currentNode.version;
+        parent.addChild(node);
+        this.reindex();
+        return node;
+    }
+
+    /**
+     * Rebuilds the level map and deepest level after nodes were removed or attached
+     */
+    private reindex(): void {
+        this.levelMap.clear();
+        this.rebuildLevelMap(this.root);
+        this.maxLevel = Math.max(...Array.from(this.levelMap.keys()));
+    }
+
+    /**
+     * Lists the nodes on the given levels, or on every level, in version order
+     * The order depends only on the tree's content, not on how it was built or loaded,
+     * so a seeded selection picks the same node from a saved copy of the tree
+     */
+    private nodesAtLevels(levels: 'max' | 'all' | number[]): TreeNode<T>[] {
+        const nodes = levels === 'all'
+            ? Array.from(this.levelMap.values()).flat()
+            : (levels === 'max' ? [this.maxLevel] : levels).flatMap(level => this.levelMap.get(level) || []);
+        const order = (node: TreeNode<T>) => node.version.split('@').map(Number);
+        return nodes.sort((a, b) => {
+            const [levelA, versionA] = order(a);
+            const [levelB, versionB] = order(b);
+            return levelA - levelB || versionA - versionB;
+        });
     }
 
     print(): void {
@@ -206,6 +554,9 @@ export class VersionedTree<T> implements IVersionedTree<T> {
                 nodeLine += isLast ? "└── " : "├── ";
             }
             nodeLine += node.version;
+            if (node.fitness !== null) {
+                nodeLine += ` [${node.fitness.toFixed(2)}]`;
+            }
             if (node === this.currentNode) {
                 nodeLine += " *"; // Mark current node
             }
@@ -224,11 +575,64 @@ export class VersionedTree<T> implements IVersionedTree<T> {
         console.log(treeString);
     }
 
+    /**
+     * Renders the tree as a Graphviz digraph with the current node highlighted and merges dashed
+     */
+    toDot(name: string = 'tree'): string {
+        const lines: string[] = [
+            `digraph ${dotQuote(name)} {`,
+            '  node [shape=box, style=rounded, fontname="Helvetica"];'
+        ];
+
+        const visit = (node: TreeNode<T>) => {
+            const highlight = node === this.currentNode
+                ? `, style="rounded,filled", fillcolor=${dotQuote(HIGHLIGHT_COLOR)}, penwidth=2`
+                : '';
+            lines.push(`  ${dotQuote(node.version)} [label=${dotQuote(node.version)}${highlight}];`);
+            if (node.mergedFrom && this.findNodeByVersion(node.mergedFrom)) {
+                lines.push(`  ${dotQuote(node.mergedFrom)} -> ${dotQuote(node.version)} [style=dashed];`);
+            }
+            node.children.forEach(child => {
+                lines.push(`  ${dotQuote(node.version)} -> ${dotQuote(child.version)};`);
+                visit(child);
+            });
+        };
+        visit(this.root);
+
+        lines.push('}');
+        return lines.join('\n');
+    }
+
+    /**
+     * Renders the tree as a Mermaid flowchart with the current node highlighted and merges dotted
+     */
+    toMermaid(): string {
+        const id = (node: TreeNode<T>) => `v${node.version.replace('@', '_')}`;
+        const lines: string[] = ['flowchart TD'];
+
+        const visit = (node: TreeNode<T>) => {
+            lines.push(`    ${id(node)}["${node.version}"]`);
+            if (node.mergedFrom && this.findNodeByVersion(node.mergedFrom)) {
+                lines.push(`    v${node.mergedFrom.replace('@', '_')} -.-> ${id(node)}`);
+            }
+            node.children.forEach(child => {
+                lines.push(`    ${id(node)} --> ${id(child)}`);
+                visit(child);
+            });
+        };
+        visit(this.root);
+
+        lines.push(`    classDef current fill:${HIGHLIGHT_COLOR},stroke:#333,stroke-width:2px`);
+        lines.push(`    class ${id(this.currentNode)} current`);
+        return lines.join('\n');
+    }
+
     save(): string {
         const treeState: TreeStateJSON<T> = {
             root: this.root.toJSON(),
             maxLevel: this.maxLevel,
-            currentNode: this.currentNode.version
+            currentNode: this.currentNode.version,
+            issued: Object.fromEntries(this.issued)
         };
         return JSON.stringify(treeState, null, 2);
     }
@@ -244,6 +648,8 @@ export class VersionedTree<T> implements IVersionedTree<T> {
 
         // console.log('root', this.root, treeState.currentNode);
 
+        this.issued = new Map(Object.entries(treeState.issued || {}).map(([level, number]) => [+level, number]));
+
         // Restore current node
         const currentNode = this.findNodeByVersion(treeState.currentNode!);
         if (!currentNode) {
@@ -261,6 +667,8 @@ export class VersionedTree<T> implements IVersionedTree<T> {
         this.levelMap.clear();
         this.rebuildLevelMap(this.root);
 
+        this.issued = new Map(Object.entries(treeState.issued || {}).map(([level, number]) => [+level, number]));
+
         // Restore current node
         const currentNode = this.findNodeByVersion(treeState.currentNode!);
         if (!currentNode) {
@@ -279,6 +687,7 @@ export class VersionedTree<T> implements IVersionedTree<T> {
             throw new Error('No current node available');
         }
         currentNode.data = newData;
+        currentNode.rehash();
     }
 }
 
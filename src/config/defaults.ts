@@ -2,12 +2,11 @@
  * Evolunary Default Agent Configuration
  * @module config/defaults
  * 
- * Defines the foundational identity, behavior traits, and cryptographic keys
- * used by Evolunary agents during initialization and operation.
+ * Defines the foundational identity and behavior traits used by Evolunary
+ * agents during initialization and operation. Signing keys are provisioned
+ * per agent by the key registry (see stateMachine/keys).
  */
 
-import { generateKeyPairSync } from "crypto";
-
 /**
  * Default persona blueprint for Evolunary agents.
  * Establishes behavioral patterns, capabilities, and foundational context.
@@ -30,22 +29,3 @@ export const defaultPersona = {
     values: [],
     prompt: `I am an Evolunary agent designed to provide structured, reliable assistance through adaptive and ethical reasoning.`
 };
-
-/**
- * Generates a secure RSA keypair for agent authentication and identity binding.
- * Keys are generated in DER format using 2048-bit modulus for balanced performance.
- */
-const { privateKey, publicKey } = generateKeyPairSync('rsa', {
-    modulusLength: 2048,
-    publicKeyEncoding: {
-        type: 'spki',
-        format: 'der'
-    },
-    privateKeyEncoding: {
-        type: 'pkcs8',
-        format: 'der'
-    }
-});
-
-/** Export agent private key in hex format for secure use in session-bound operations */
-export const defaultPrivateKeyHex = privateKey.toString('hex');
@@ -8,6 +8,28 @@ import { Router } from 'express';
 import { authenticatedMust, AuthenticatedRequest } from '../auth/middleware';
 import { createAgentForUser, getAgentsByUser, getAgentById } from '../agent/model';
 import { swarmManager } from '../swarm';
+import { auditSession, getLatestExecutionLog } from '../stateMachine/audit';
+import { anchorSession, assertPairedWallet, getSessionAnchors, verifyAnchor } from '../stateMachine/anchor';
+import { loadSolanaKeypair } from '../stateMachine/signer';
+import { getAgentKeys } from '../stateMachine/keys';
+import { buildSessionReplay } from '../agent/replay';
+import { MergeSide, PERSONA_FIELDS, diffPersonaFields } from '../agent/merge';
+import { Conversation, getConversation, getConversationExchanges, getConversations, newConversation } from '../agent/conversation';
+import { Connection } from '@solana/web3.js';
+import { GRAPH_FORMATS, GraphFormat, renderMachine } from '../stateMachine/graph';
+import {
+    PersonaMergeOutcome,
+    getEvolutionRun,
+    getEvolutionRuns,
+    getPersonaAncestors,
+    getPersonaArchives,
+    getPersonaDescendants,
+    getPersonaSiblings,
+    loadPersonaTree,
+    personaDefinition,
+    replayEvolutionRun,
+    verifyPersonaVersion
+} from '../agent/subagents/persona';
 
 const router = Router();
 
@@ -61,6 +83,11 @@ router.post('/new', authenticatedMust, async (req: AuthenticatedRequest, res) =>
             return res.status(400).json({ error: 'Agent name and persona config required' });
         }
 
+        const historyWindow = learningConfig?.historyWindow;
+        if (historyWindow !== undefined && (!Number.isInteger(historyWindow) || historyWindow < 1)) {
+            return res.status(400).json({ error: 'History window must be a positive integer' });
+        }
+
         const agent = await createAgentForUser(
             userId,
             name,
@@ -91,11 +118,11 @@ router.post('/new', authenticatedMust, async (req: AuthenticatedRequest, res) =>
     }
 });
 
-// Send a message to a specific Evolunary agent
+// Send a message to a specific Evolunary agent, continuing a conversation or starting one
 router.post('/:id/chat', authenticatedMust, async (req: AuthenticatedRequest, res) => {
     try {
         const { id } = req.params;
-        const { message } = req.body;
+        const { message, conversationId } = req.body;
         const { userId } = req.user!;
 
         if (!message) return res.status(400).json({ error: 'Message is required' });
@@ -103,6 +130,17 @@ router.post('/:id/chat', authenticatedMust, async (req: AuthenticatedRequest, re
         const agent = await getAgentById(id, userId);
         if (!agent) return res.status(404).json({ error: 'Agent not found' });
 
+        let conversation: Conversation | null;
+        if (conversationId) {
+            conversation = await getConversation(conversationId);
+            if (!conversation || conversation.agentId !== agent.id || conversation.userId !== userId) {
+                return res.status(404).json({ error: 'Conversation not found' });
+            }
+        } else {
+            // The worker's persona session is keyed by the agent name; the thread is stored with its first exchange
+            conversation = newConversation(agent.id, agent.name, userId);
+        }
+
         if (!swarmManager.isAgentActive(agent.id)) {
             await swarmManager.startAgent(agent);
         }
@@ -110,14 +148,555 @@ router.post('/:id/chat', authenticatedMust, async (req: AuthenticatedRequest, re
         const response = await swarmManager.sendMessage(agent.id, {
             type: 'chat',
             content: message,
+            metadata: { conversation }
         });
 
         if (!response.success) throw new Error(response.error || 'Failed to process message');
 
-        res.json({ response: response.response });
+        res.json({ response: response.response, conversationId: conversation.id });
     } catch (err) {
         res.status(500).json({ error: 'Failed to chat with Evolunary agent' });
     }
 });
 
+// List the user's conversations with an Evolunary agent
+router.get('/:id/conversations', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        res.json({ conversations: await getConversations(agent.id, userId) });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent conversations' });
+    }
+});
+
+// Get one of the user's conversations with an Evolunary agent, with every exchange
+router.get('/:id/conversations/:conversationId', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, conversationId } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const conversation = await getConversation(conversationId);
+        if (!conversation || conversation.agentId !== agent.id || conversation.userId !== userId) {
+            return res.status(404).json({ error: 'Conversation not found' });
+        }
+
+        res.json({ conversation, exchanges: await getConversationExchanges(conversation.id) });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent conversation' });
+    }
+});
+
+// Verify the stored proof chain of an Evolunary agent session
+router.get('/:id/sessions/:sessionId/audit', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, sessionId } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const report = await auditSession(agent.id, sessionId);
+        if (!report.totalProofs) return res.status(404).json({ error: 'No proofs recorded for session' });
+
+        res.json({ audit: report });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not audit Evolunary agent session' });
+    }
+});
+
+// Replay an Evolunary agent session transition by transition, with the persona fields each one changed
+router.get('/:id/sessions/:sessionId/replay', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, sessionId } = req.params;
+        const { userId } = req.user!;
+        const step = req.query.step === undefined ? undefined : Number(req.query.step);
+
+        if (step !== undefined && (!Number.isInteger(step) || step < 0)) {
+            return res.status(400).json({ error: 'Step must be a non-negative integer' });
+        }
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const replay = await buildSessionReplay(agent.id, sessionId);
+        if (!replay.frames.length && !replay.initialVersions.length) {
+            return res.status(404).json({ error: 'Nothing recorded for session' });
+        }
+        if (step === undefined) return res.json({ replay });
+
+        // Step 0 is the session start; step n is the state after the n-th transition
+        const totalSteps = replay.frames.length;
+        const current = Math.min(step, totalSteps);
+        res.json({
+            step: current,
+            totalSteps,
+            previousStep: current > 0 ? current - 1 : null,
+            nextStep: current < totalSteps ? current + 1 : null,
+            frame: current > 0 ? replay.frames[current - 1] : null,
+            initialVersions: current === 0 ? replay.initialVersions : undefined
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not replay Evolunary agent session' });
+    }
+});
+
+// List the on-chain Merkle root anchors of an Evolunary agent session, optionally verifying them
+router.get('/:id/sessions/:sessionId/anchors', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, sessionId } = req.params;
+        const { userId } = req.user!;
+        const verify = req.query.verify === 'true';
+
+        if (verify && !process.env.SOLANA_RPC_URL) {
+            return res.status(503).json({ error: 'Solana RPC is not configured' });
+        }
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const anchors = await getSessionAnchors(agent.id, sessionId);
+        if (!verify) return res.json({ anchors });
+
+        const connection = new Connection(process.env.SOLANA_RPC_URL!, 'confirmed');
+        const verifications = [];
+        for (const anchor of anchors) {
+            verifications.push(await verifyAnchor(connection, anchor));
+        }
+
+        res.json({ anchors, verifications });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent session anchors' });
+    }
+});
+
+// Anchor the current Merkle root of an Evolunary agent session on Solana
+router.post('/:id/sessions/:sessionId/anchors', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, sessionId } = req.params;
+        const { userId } = req.user!;
+
+        if (!process.env.SOLANA_RPC_URL || !process.env.AGENT_WALLET_KEY) {
+            return res.status(503).json({ error: 'Solana anchoring is not configured' });
+        }
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const wallet = loadSolanaKeypair(process.env.AGENT_WALLET_KEY);
+        try {
+            assertPairedWallet(wallet, agent.pairedWalletAddress);
+        } catch (err) {
+            return res.status(409).json({ error: err.message });
+        }
+
+        const connection = new Connection(process.env.SOLANA_RPC_URL, 'confirmed');
+        const anchor = await anchorSession(connection, wallet, agent.id, sessionId);
+        if (!anchor) return res.status(409).json({ error: 'No new proofs to anchor' });
+
+        res.status(201).json({ anchor });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not anchor Evolunary agent session' });
+    }
+});
+
+// List the signing keys an Evolunary agent has used, with their validity windows
+router.get('/:id/keys', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const keys = await getAgentKeys(agent.id);
+        res.json({ keys });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent keys' });
+    }
+});
+
+// Rotate the signing key of a running Evolunary agent
+router.post('/:id/keys/rotate', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+        if (!swarmManager.isAgentActive(agent.id)) {
+            return res.status(409).json({ error: 'Agent must be running to rotate its key' });
+        }
+
+        const response = await swarmManager.sendMessage(agent.id, {
+            type: 'command',
+            content: 'rotate-key',
+        });
+
+        if (!response.success) throw new Error(response.error || 'Failed to rotate key');
+
+        res.json({ rotation: JSON.parse(response.response!) });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not rotate Evolunary agent key' });
+    }
+});
+
+// Stream an Evolunary agent's status changes and signed transitions as Server-Sent Events
+router.get('/:id/events', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    let agentId: string;
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+        agentId = agent.id;
+    } catch (err) {
+        return res.status(500).json({ error: 'Could not stream Evolunary agent events' });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+
+    const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('status', {
+        type: 'status',
+        agentId,
+        status: swarmManager.isAgentActive(agentId) ? 'running' : 'stopped',
+    });
+    const unsubscribe = swarmManager.subscribe(agentId, update => send(update.type, update));
+
+    // Comment lines keep idle connections open through proxies
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
+
+// Diff two persona versions of an Evolunary agent field by field
+router.get('/:id/personas/diff', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+        const { from, to } = req.query as { from?: string; to?: string };
+
+        if (!from || !to) return res.status(400).json({ error: 'Both from and to versions are required' });
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        // Persona workers run their session under the agent's name
+        const sessionId = (req.query.sessionId as string) || agent.name;
+        const tree = await loadPersonaTree(agent.id, sessionId);
+        const fromNode = tree?.findNodeByVersion(from);
+        const toNode = tree?.findNodeByVersion(to);
+        if (!fromNode || !toNode) return res.status(404).json({ error: 'Persona version not found' });
+
+        res.json({ from, to, sessionId, changes: diffPersonaFields(fromNode.data, toNode.data) });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not diff Evolunary agent personas' });
+    }
+});
+
+// Three-way merge two persona versions of an Evolunary agent into a new version
+router.post('/:id/personas/merge', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+        const { ours, theirs, resolve = {} } = req.body as {
+            ours?: string;
+            theirs?: string;
+            resolve?: Record<string, MergeSide>;
+        };
+
+        if (!ours || !theirs) return res.status(400).json({ error: 'Both ours and theirs versions are required' });
+        const invalid = Object.entries(resolve).find(([field, side]) =>
+            !(PERSONA_FIELDS as string[]).includes(field) || (side !== 'ours' && side !== 'theirs'));
+        if (invalid) return res.status(400).json({ error: `Invalid resolution for ${invalid[0]}` });
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const sessionId = (req.body.sessionId as string) || agent.name;
+        const tree = await loadPersonaTree(agent.id, sessionId);
+        if (!tree?.findNodeByVersion(ours) || !tree.findNodeByVersion(theirs)) {
+            return res.status(404).json({ error: 'Persona version not found' });
+        }
+        const base = tree.commonAncestor(ours, theirs).version;
+        if (base === ours || base === theirs) {
+            return res.status(409).json({ error: 'Versions are on the same line of descent' });
+        }
+
+        // Only a running worker can sign the transition that commits the merged version
+        if (!swarmManager.isAgentActive(agent.id) || sessionId !== agent.name) {
+            return res.status(409).json({ error: 'Persona machine is not running; start the agent to merge personas' });
+        }
+        const response = await swarmManager.sendMessage(agent.id, {
+            type: 'command',
+            content: 'merge',
+            metadata: { ours, theirs, resolve }
+        });
+        if (!response.success) throw new Error(response.error || 'Failed to merge personas');
+        const outcome: PersonaMergeOutcome = JSON.parse(response.response!);
+
+        if (!outcome.version) {
+            return res.status(409).json({ error: 'Merge has unresolved conflicts', merge: outcome });
+        }
+        res.status(201).json({ merge: outcome });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not merge Evolunary agent personas' });
+    }
+});
+
+// List the ancestors, descendants and siblings of a persona version of an Evolunary agent
+router.get('/:id/personas/:version/lineage', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, version } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const sessionId = (req.query.sessionId as string) || agent.name;
+        const tree = await loadPersonaTree(agent.id, sessionId);
+        if (!tree?.findNodeByVersion(version)) return res.status(404).json({ error: 'Persona version not found' });
+
+        const [ancestors, descendants, siblings] = await Promise.all([
+            getPersonaAncestors(agent.id, sessionId, version),
+            getPersonaDescendants(agent.id, sessionId, version),
+            getPersonaSiblings(agent.id, sessionId, version)
+        ]);
+        const versionsOf = (personas: { version: string }[]) => personas.map(persona => persona.version);
+
+        res.json({
+            version,
+            sessionId,
+            ancestors: versionsOf(ancestors),
+            descendants: versionsOf(descendants),
+            siblings: versionsOf(siblings)
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent persona lineage' });
+    }
+});
+
+// Check a persona version of an Evolunary agent against the content hashes in its signed proofs
+router.get('/:id/personas/:version/verify', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, version } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const sessionId = (req.query.sessionId as string) || agent.name;
+        const verification = await verifyPersonaVersion(agent.id, sessionId, version);
+        if (!verification) return res.status(404).json({ error: 'Persona version not found' });
+
+        res.json({ sessionId, verification });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not verify Evolunary agent persona' });
+    }
+});
+
+// Make an existing persona version of an Evolunary agent current, e.g. to roll back a bad evolution
+router.post('/:id/personas/:version/checkout', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, version } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const sessionId = (req.body?.sessionId as string) || agent.name;
+        const tree = await loadPersonaTree(agent.id, sessionId);
+        if (!tree?.findNodeByVersion(version)) return res.status(404).json({ error: 'Persona version not found' });
+
+        // Only a running worker can sign the transition that commits the checked out version
+        if (!swarmManager.isAgentActive(agent.id) || sessionId !== agent.name) {
+            return res.status(409).json({ error: 'Persona machine is not running; start the agent to check out a persona' });
+        }
+        const response = await swarmManager.sendMessage(agent.id, {
+            type: 'command',
+            content: 'checkout',
+            metadata: { version }
+        });
+        if (!response.success) throw new Error(response.error || 'Failed to check out persona');
+        res.json({ checkout: JSON.parse(response.response!) });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not check out Evolunary agent persona' });
+    }
+});
+
+// List the archived persona branches of an Evolunary agent
+router.get('/:id/personas/archives', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const sessionId = (req.query.sessionId as string) || agent.name;
+        const archives = await getPersonaArchives(agent.id, sessionId);
+        res.json({
+            sessionId,
+            archives: archives.map(({ tree, ...archive }) => archive)
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent persona archives' });
+    }
+});
+
+// Restore an archived persona branch of an Evolunary agent into its live tree
+router.post('/:id/personas/archives/:archiveId/restore', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, archiveId } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const sessionId = (req.body?.sessionId as string) || agent.name;
+        const archive = (await getPersonaArchives(agent.id, sessionId)).find(entry => entry.id === archiveId);
+        if (!archive) return res.status(404).json({ error: 'Archive not found' });
+
+        const tree = await loadPersonaTree(agent.id, sessionId);
+        if (!tree?.findNodeByVersion(archive.parentVersion)) {
+            return res.status(409).json({ error: `Parent version ${archive.parentVersion} is no longer live` });
+        }
+
+        // Only a running worker can sign the transition that records the restored versions
+        if (!swarmManager.isAgentActive(agent.id) || sessionId !== agent.name) {
+            return res.status(409).json({ error: 'Persona machine is not running; start the agent to restore an archive' });
+        }
+        const response = await swarmManager.sendMessage(agent.id, {
+            type: 'command',
+            content: 'restore',
+            metadata: { archiveId }
+        });
+        if (!response.success) throw new Error(response.error || 'Failed to restore archive');
+        const version: string | null = JSON.parse(response.response!).version;
+
+        if (!version) return res.status(404).json({ error: 'Archive not found' });
+        res.json({ restored: { archiveId, version, versions: archive.versions } });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not restore Evolunary agent persona archive' });
+    }
+});
+
+// List the recorded evolution runs of an Evolunary agent session
+router.get('/:id/evolution/runs', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const sessionId = (req.query.sessionId as string) || agent.name;
+        res.json({ sessionId, runs: await getEvolutionRuns(agent.id, sessionId) });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent evolution runs' });
+    }
+});
+
+// Get an Evolunary agent's evolution run with its seed, model transcript and tree snapshots
+router.get('/:id/evolution/runs/:runId', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, runId } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const run = await getEvolutionRun(agent.id, runId);
+        if (!run) return res.status(404).json({ error: 'Evolution run not found' });
+        res.json({ run });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not load Evolunary agent evolution run' });
+    }
+});
+
+// Replay an Evolunary agent's evolution run from its record, without calling the model
+router.post('/:id/evolution/runs/:runId/replay', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id, runId } = req.params;
+        const { userId } = req.user!;
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        const run = await getEvolutionRun(agent.id, runId);
+        if (!run) return res.status(404).json({ error: 'Evolution run not found' });
+
+        const replay = replayEvolutionRun(run);
+        res.json({
+            runId,
+            seed: run.seed,
+            recordedVersion: run.newVersion,
+            newVersion: replay.newVersion,
+            matches: replay.matches,
+            tree: JSON.parse(replay.tree.save())
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not replay Evolunary agent evolution run' });
+    }
+});
+
+// Render an Evolunary agent's persona evolution tree or state machine as DOT or Mermaid
+router.get('/:id/graph', authenticatedMust, async (req: AuthenticatedRequest, res) => {
+    try {
+        const { id } = req.params;
+        const { userId } = req.user!;
+        const kind = (req.query.kind as string) || 'states';
+        const format = ((req.query.format as string) || 'mermaid') as GraphFormat;
+
+        if (kind !== 'persona' && kind !== 'states') {
+            return res.status(400).json({ error: 'Graph kind must be persona or states' });
+        }
+        if (!GRAPH_FORMATS.includes(format)) {
+            return res.status(400).json({ error: 'Graph format must be dot or mermaid' });
+        }
+
+        const agent = await getAgentById(id, userId);
+        if (!agent) return res.status(404).json({ error: 'Agent not found' });
+
+        // Persona workers run their session under the agent's name
+        const sessionId = (req.query.sessionId as string) || agent.name;
+
+        let graph: string;
+        if (kind === 'persona') {
+            const tree = await loadPersonaTree(agent.id, sessionId);
+            if (!tree) return res.status(404).json({ error: 'No personas recorded for session' });
+            graph = format === 'dot' ? tree.toDot(agent.name) : tree.toMermaid();
+        } else {
+            const latest = await getLatestExecutionLog(agent.id, sessionId);
+            const configuration = latest
+                ? latest.proof.configuration ?? { main: [latest.toState] }
+                : { main: [personaDefinition.initial] };
+            graph = renderMachine(personaDefinition, configuration, format);
+        }
+
+        res.json({ kind, format, sessionId, graph });
+    } catch (err) {
+        res.status(500).json({ error: 'Could not render Evolunary agent graph' });
+    }
+});
+
 export default router;
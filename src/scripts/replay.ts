@@ -0,0 +1,105 @@
+/**
+ * Evolunary Session Replay CLI
+ * Steps through an agent session's transitions and the persona fields each one changed
+ *
+ * Usage:
+ *   npm run replay -- <agentId> <sessionId>            interactive (n, p, g <step>, q)
+ *   npm run replay -- <agentId> <sessionId> --all      print every step
+ *   npm run replay -- <agentId> <sessionId> --step 12  print one step
+ * @module scripts/replay
+ */
+
+import { createInterface } from 'node:readline/promises';
+import { PersonaVersionChange, ReplayCursor, ReplayFrame, SessionReplay, buildSessionReplay } from '../agent/replay';
+import sql from '../utils/sql';
+
+function formatVersion(change: PersonaVersionChange): string[] {
+    const parent = change.parentVersion
+        ? ` (from ${change.parentVersion}${change.parentInferred ? ', inferred' : ''})`
+        : ' (root)';
+    const lines = [`  persona ${change.version}${parent}`];
+
+    change.changes.forEach(fieldChange => {
+        if (fieldChange.field === 'prompt') {
+            lines.push(`    ~ prompt: ${JSON.stringify(fieldChange.before)} -> ${JSON.stringify(fieldChange.after)}`);
+            return;
+        }
+        const field = String(fieldChange.field);
+        fieldChange.added?.forEach(entry => lines.push(`    + ${field}: ${JSON.stringify(entry)}`));
+        fieldChange.removed?.forEach(entry => lines.push(`    - ${field}: ${JSON.stringify(entry)}`));
+    });
+    if (!change.changes.length) lines.push('    (no field changes)');
+
+    return lines;
+}
+
+function formatStep(replay: SessionReplay, frame: ReplayFrame | null): string {
+    const total = replay.frames.length;
+    if (!frame) {
+        return [
+            `[start/${total}] ${replay.agentId} ${replay.sessionId}`,
+            ...replay.initialVersions.flatMap(formatVersion)
+        ].join('\n');
+    }
+
+    return [
+        `[${frame.index + 1}/${total}] ${new Date(frame.timestamp).toISOString()} ${frame.from} -> ${frame.to}: ${frame.action}`,
+        `  persona version: ${frame.currentVersion ?? 'none'}`,
+        ...frame.createdVersions.flatMap(formatVersion)
+    ].join('\n');
+}
+
+async function interact(replay: SessionReplay): Promise<void> {
+    const cursor = new ReplayCursor(replay);
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    console.log(formatStep(replay, cursor.current()));
+
+    try {
+        while (true) {
+            const [command, argument] = (await rl.question('replay> ')).trim().split(/\s+/);
+            if (command === 'q' || command === 'quit') break;
+
+            if (command === 'n' || command === '') cursor.next();
+            else if (command === 'p') cursor.previous();
+            else if (command === 'g' && argument !== undefined) cursor.seek(Number(argument) - 1);
+            else {
+                console.log('Commands: n (next), p (previous), g <step>, q (quit)');
+                continue;
+            }
+            console.log(formatStep(replay, cursor.current()));
+        }
+    } finally {
+        rl.close();
+    }
+}
+
+async function main() {
+    const [agentId, sessionId, flag, value] = process.argv.slice(2);
+    if (!agentId || !sessionId) {
+        console.error('Usage: replay <agentId> <sessionId> [--all | --step <n>]');
+        process.exitCode = 1;
+        return;
+    }
+
+    const replay = await buildSessionReplay(agentId, sessionId);
+    if (!replay.frames.length && !replay.initialVersions.length) {
+        console.error(`Nothing recorded for agent ${agentId} session ${sessionId}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    if (flag === '--all') {
+        console.log([null, ...replay.frames].map(frame => formatStep(replay, frame)).join('\n\n'));
+    } else if (flag === '--step') {
+        console.log(formatStep(replay, new ReplayCursor(replay).seek(Number(value) - 1)));
+    } else {
+        await interact(replay);
+    }
+}
+
+main()
+    .catch(error => {
+        console.error('Replay failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => sql.end());
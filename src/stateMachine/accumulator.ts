@@ -0,0 +1,306 @@
+/**
+ * Evolunary Merkle Accumulator
+ *
+ * Append-only Merkle accumulator backing transition proofs. Appends cost O(log n),
+ * roots are produced by bagging the perfect-subtree peaks from right to left, which
+ * yields the same roots as `new MerkleTree(leaves, SHA256)` from merkletreejs.
+ * @module evolunary/accumulator
+ */
+
+import { createHash } from 'crypto';
+import postgres from 'postgres';
+import sql from '../utils/sql';
+
+/**
+ * One step of an inclusion proof. `position` is the side the sibling sits on.
+ */
+export interface MerkleProofStep {
+  position: 'left' | 'right';
+  data: string;
+}
+
+/**
+ * Compact persisted form of an accumulator: the leaf count and the peak of every
+ * perfect subtree, largest first. Enough to keep appending and computing roots.
+ */
+export interface AccumulatorFrontier {
+  size: number;
+  peaks: string[];
+}
+
+function toBuffer(hex: string): Buffer {
+  return Buffer.from(hex.replace(/^0x/, ''), 'hex');
+}
+
+function toHex(buffer: Buffer): string {
+  return `0x${buffer.toString('hex')}`;
+}
+
+function hashPair(left: Buffer, right: Buffer): Buffer {
+  return createHash('sha256').update(Buffer.concat([left, right])).digest();
+}
+
+/** Levels (bit positions) of the perfect subtrees making up a tree of `size` leaves, largest first */
+function peakLevels(size: number): number[] {
+  const levels: number[] = [];
+  for (let level = Math.floor(Math.log2(size || 1)); level >= 0; level--) {
+    if (size & (2 ** level)) levels.push(level);
+  }
+  return levels;
+}
+
+export class MerkleAccumulator {
+  /**
+   * levels[k][j] is the root of the j-th complete subtree of 2^k leaves.
+   * After a frontier restore only the peaks are present, so lower nodes may be missing.
+   */
+  private levels: (Buffer | undefined)[][] = [];
+  private leafCount = 0;
+  private complete = true;
+
+  /** Number of leaves appended so far */
+  get size(): number {
+    return this.leafCount;
+  }
+
+  /** Whether every historical leaf is available for inclusion proofs */
+  get hasFullHistory(): boolean {
+    return this.complete;
+  }
+
+  /**
+   * Appends a leaf and returns the new root together with the leaf's proof.
+   * The newest leaf only ever has left siblings, so its proof is returned as plain hex
+   * strings, the same shape as merkletreejs `getHexProof()`.
+   */
+  append(leaf: string): { root: string; proof: string[] } {
+    let node = toBuffer(leaf);
+    let level = 0;
+
+    this.push(0, node);
+    while (this.levels[level].length % 2 === 0) {
+      const nodes = this.levels[level];
+      node = hashPair(nodes[nodes.length - 2], nodes[nodes.length - 1]);
+      this.push(++level, node);
+    }
+    this.leafCount++;
+
+    return {
+      root: this.getRoot(),
+      proof: this.proveLatest()
+    };
+  }
+
+  /**
+   * Returns what append() would, along with the frontier after the append, without
+   * changing the accumulator, so a leaf can be persisted before it is appended.
+   */
+  preview(leaf: string): { root: string; proof: string[]; frontier: AccumulatorFrontier } {
+    const lengths = this.levels.map(level => level.length);
+    const leafCount = this.leafCount;
+
+    try {
+      return { ...this.append(leaf), frontier: this.getFrontier() };
+    } finally {
+      this.levels.length = lengths.length;
+      lengths.forEach((length, level) => {
+        this.levels[level].length = length;
+      });
+      this.leafCount = leafCount;
+    }
+  }
+
+  /**
+   * Returns the root over the first `size` leaves (defaults to all leaves).
+   */
+  getRoot(size: number = this.leafCount): string {
+    if (size < 1 || size > this.leafCount) {
+      throw new Error(`No Merkle root for ${size} leaves (accumulator holds ${this.leafCount})`);
+    }
+
+    const peaks = this.peaksAt(size);
+    let bagged = peaks[peaks.length - 1];
+    for (let i = peaks.length - 2; i >= 0; i--) {
+      bagged = hashPair(peaks[i], bagged);
+    }
+    return toHex(bagged);
+  }
+
+  /**
+   * Produces an inclusion proof for any historical leaf.
+   *
+   * @param index - Zero-based leaf index
+   * @param size - Tree size the proof is built against (defaults to all leaves)
+   */
+  getProof(index: number, size: number = this.leafCount): MerkleProofStep[] {
+    if (index < 0 || index >= size || size > this.leafCount) {
+      throw new Error(`Leaf ${index} is outside a tree of ${size} leaves`);
+    }
+
+    const levels = peakLevels(size);
+    const peaks = this.peaksAt(size);
+    const proof: MerkleProofStep[] = [];
+
+    // Locate the peak whose subtree covers the leaf
+    let start = 0;
+    let peakIndex = 0;
+    while (index >= start + 2 ** levels[peakIndex]) {
+      start += 2 ** levels[peakIndex];
+      peakIndex++;
+    }
+
+    // Path inside the peak
+    for (let level = 0; level < levels[peakIndex]; level++) {
+      const position = index >> level;
+      const sibling = position ^ 1;
+      const data = this.levels[level]?.[sibling];
+      if (!data) {
+        throw new Error(`Leaf ${index} is not available; accumulator was restored from a frontier`);
+      }
+      proof.push({ position: sibling < position ? 'left' : 'right', data: toHex(data) });
+    }
+
+    // Peaks to the right are bagged into a single right sibling
+    if (peakIndex < peaks.length - 1) {
+      let bagged = peaks[peaks.length - 1];
+      for (let i = peaks.length - 2; i > peakIndex; i--) {
+        bagged = hashPair(peaks[i], bagged);
+      }
+      proof.push({ position: 'right', data: toHex(bagged) });
+    }
+
+    // Larger peaks to the left are folded in one by one
+    for (let i = peakIndex - 1; i >= 0; i--) {
+      proof.push({ position: 'left', data: toHex(peaks[i]) });
+    }
+
+    return proof;
+  }
+
+  /**
+   * Returns the compact frontier for persistence.
+   */
+  getFrontier(): AccumulatorFrontier {
+    return {
+      size: this.leafCount,
+      peaks: this.leafCount ? this.peaksAt(this.leafCount).map(toHex) : []
+    };
+  }
+
+  /**
+   * Verifies an inclusion proof. Plain hex steps are treated as left siblings,
+   * matching the proofs stored with each transition.
+   */
+  static verify(leaf: string, proof: (MerkleProofStep | string)[], root: string): boolean {
+    let hash = toBuffer(leaf);
+    for (const step of proof) {
+      const { position, data } = typeof step === 'string'
+        ? { position: 'left' as const, data: step }
+        : step;
+      hash = position === 'left'
+        ? hashPair(toBuffer(data), hash)
+        : hashPair(hash, toBuffer(data));
+    }
+    return toHex(hash) === `0x${root.replace(/^0x/, '')}`;
+  }
+
+  /**
+   * Rebuilds an accumulator from the full leaf history.
+   */
+  static fromLeaves(leaves: string[]): MerkleAccumulator {
+    const accumulator = new MerkleAccumulator();
+    leaves.forEach(leaf => accumulator.append(leaf));
+    return accumulator;
+  }
+
+  /**
+   * Restores an append-only accumulator from a persisted frontier.
+   * Roots and new appends work immediately; proofs for leaves appended
+   * before the restore need `fromLeaves()`.
+   */
+  static fromFrontier(frontier: AccumulatorFrontier): MerkleAccumulator {
+    const accumulator = new MerkleAccumulator();
+    const levels = peakLevels(frontier.size);
+    if (frontier.size && levels.length !== frontier.peaks.length) {
+      throw new Error('Frontier peaks do not match its size');
+    }
+
+    // Each level is sparse but keeps the length of its completed subtrees,
+    // so later appends pair up at the right positions
+    for (let level = 0; 2 ** level <= frontier.size; level++) {
+      accumulator.levels[level] = new Array(Math.floor(frontier.size / 2 ** level));
+    }
+    levels.forEach((level, i) => {
+      accumulator.levels[level][Math.floor(frontier.size / 2 ** level) - 1] = toBuffer(frontier.peaks[i]);
+    });
+    accumulator.leafCount = frontier.size;
+    accumulator.complete = frontier.size === 0;
+
+    return accumulator;
+  }
+
+  private push(level: number, node: Buffer): void {
+    if (!this.levels[level]) this.levels[level] = [];
+    this.levels[level].push(node);
+  }
+
+  private peaksAt(size: number): Buffer[] {
+    return peakLevels(size).map(level => {
+      const peak = this.levels[level]?.[Math.floor(size / 2 ** level) - 1];
+      if (!peak) {
+        throw new Error(`Tree of ${size} leaves is not available; accumulator was restored from a frontier`);
+      }
+      return peak;
+    });
+  }
+
+  /**
+   * Proof for the newest leaf. Its siblings are always current peaks or nodes
+   * appended since the last restore, so this also works after `fromFrontier()`.
+   */
+  private proveLatest(): string[] {
+    const size = this.leafCount;
+    const levels = peakLevels(size);
+    const proof: string[] = [];
+
+    for (let level = 0; level < levels[levels.length - 1]; level++) {
+      proof.push(toHex(this.levels[level][((size - 1) >> level) - 1]!));
+    }
+
+    const peaks = this.peaksAt(size);
+    for (let i = peaks.length - 2; i >= 0; i--) {
+      proof.push(toHex(peaks[i]));
+    }
+    return proof;
+  }
+}
+
+/**
+ * Persists a session's accumulator frontier, inside a transaction when one is given.
+ */
+export async function saveFrontier(
+  agentId: string,
+  sessionId: string,
+  frontier: AccumulatorFrontier,
+  tx?: postgres.TransactionSql
+): Promise<void> {
+  await (tx ?? sql)`
+    INSERT INTO merkle_frontiers (agent_id, session_id, size, peaks, updated_at)
+    VALUES (${agentId}, ${sessionId}, ${frontier.size}, ${sql.json(frontier.peaks)}, NOW())
+    ON CONFLICT (agent_id, session_id) DO UPDATE
+    SET size = EXCLUDED.size,
+        peaks = EXCLUDED.peaks,
+        updated_at = NOW()
+  `;
+}
+
+/**
+ * Loads a session's accumulator frontier, if one has been persisted.
+ */
+export async function loadFrontier(agentId: string, sessionId: string): Promise<AccumulatorFrontier | null> {
+  const [row] = await sql<AccumulatorFrontier[]>`
+    SELECT size, peaks FROM merkle_frontiers
+    WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+  `;
+  return row ? { size: Number(row.size), peaks: row.peaks } : null;
+}
@@ -0,0 +1,254 @@
+/**
+ * Evolunary Merkle Root Anchoring
+ *
+ * Commits a session's Merkle root to Solana as a memo transaction signed by the agent's
+ * paired wallet, and records the transaction signature beside the execution_logs range it covers.
+ * A confirmed anchor proves the history up to that row has not been rewritten since.
+ * @module evolunary/anchor
+ */
+
+import {
+  Connection,
+  Keypair,
+  ParsedInstruction,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction
+} from '@solana/web3.js';
+import { canonicalize } from '../utils/canonical';
+import { MerkleAccumulator } from './accumulator';
+import { getExecutionLogs, getLatestExecutionLog } from './audit';
+import { hashTransition } from './proof';
+import sql from '../utils/sql';
+
+/** SPL Memo program; it only logs its data and requires every listed account to sign */
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+/** Version tag written into every anchor memo */
+export const ANCHOR_MEMO_VERSION = 'evolunary-anchor/1';
+
+/**
+ * A Merkle root committed on-chain, as stored in `merkle_anchors`.
+ */
+export interface MerkleAnchor {
+  id: string;
+  agentId: string;
+  sessionId: string;
+  merkleRoot: string;      // Root over the first `size` proofs of the session
+  size: number;            // Number of proofs covered by the root
+  firstLogId: string;      // First execution_logs row not covered by the previous anchor
+  lastLogId: string;       // Last execution_logs row covered by the root
+  signature: string;       // Solana transaction signature
+  walletAddress: string;   // Wallet that signed the memo
+  createdAt: Date;
+}
+
+/**
+ * Outcome of checking one anchor against the chain and the stored history.
+ */
+export interface AnchorVerification {
+  anchorId: string;
+  signature: string;
+  valid: boolean;
+  reason?: string;         // Why the anchor failed, if it did
+}
+
+/**
+ * Memo text committing to a session root. Canonical JSON so anyone can rebuild it from the row.
+ */
+export function encodeAnchorMemo(anchor: Pick<MerkleAnchor, 'agentId' | 'sessionId' | 'merkleRoot' | 'size'>): string {
+  return canonicalize({
+    v: ANCHOR_MEMO_VERSION,
+    agentId: anchor.agentId,
+    sessionId: anchor.sessionId,
+    root: anchor.merkleRoot,
+    size: anchor.size
+  });
+}
+
+/**
+ * Ensures anchors are signed by the wallet paired with the agent.
+ */
+export function assertPairedWallet(wallet: Keypair, pairedWalletAddress: string): void {
+  if (!pairedWalletAddress) {
+    throw new Error('Agent has no paired wallet to anchor with');
+  }
+  if (wallet.publicKey.toBase58() !== pairedWalletAddress) {
+    throw new Error(`Anchor wallet ${wallet.publicKey.toBase58()} is not the agent's paired wallet ${pairedWalletAddress}`);
+  }
+}
+
+/**
+ * Fetches every anchor of a session, oldest first.
+ */
+export async function getSessionAnchors(agentId: string, sessionId: string): Promise<MerkleAnchor[]> {
+  const rows = await sql<MerkleAnchor[]>`
+    SELECT * FROM merkle_anchors
+    WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+    ORDER BY last_log_id ASC
+  `;
+  return rows.map(row => ({ ...row, size: Number(row.size) }));
+}
+
+/**
+ * Fetches the most recent anchor of a session, if any.
+ */
+export async function getLatestAnchor(agentId: string, sessionId: string): Promise<MerkleAnchor | null> {
+  const [row] = await sql<MerkleAnchor[]>`
+    SELECT * FROM merkle_anchors
+    WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+    ORDER BY last_log_id DESC
+    LIMIT 1
+  `;
+  return row ? { ...row, size: Number(row.size) } : null;
+}
+
+/**
+ * Commits the session's current Merkle root to Solana and records the anchor.
+ * The root is taken from the newest persisted proof, so it covers every row up to it.
+ *
+ * @param connection - RPC connection to the cluster (a local test validator works)
+ * @param wallet - Paired wallet that pays for and signs the memo
+ * @returns The new anchor, or null if nothing was written since the last one
+ */
+export async function anchorSession(
+  connection: Connection,
+  wallet: Keypair,
+  agentId: string,
+  sessionId: string
+): Promise<MerkleAnchor | null> {
+  const latest = await getLatestExecutionLog(agentId, sessionId);
+  const previous = await getLatestAnchor(agentId, sessionId);
+  if (!latest || (previous && previous.lastLogId === String(latest.id))) {
+    return null;
+  }
+
+  const [range] = await sql`
+    SELECT COUNT(*)::int AS size,
+           MIN(id) FILTER (WHERE id > ${previous?.lastLogId ?? 0}) AS first_log_id
+    FROM execution_logs
+    WHERE agent_id = ${agentId} AND session_id = ${sessionId} AND id <= ${latest.id}
+  `;
+
+  const memo = encodeAnchorMemo({ agentId, sessionId, merkleRoot: latest.proof.merkleRoot, size: range.size });
+  const transaction = new Transaction().add(new TransactionInstruction({
+    keys: [{ pubkey: wallet.publicKey, isSigner: true, isWritable: false }],
+    programId: MEMO_PROGRAM_ID,
+    data: Buffer.from(memo, 'utf8')
+  }));
+  const signature = await sendAndConfirmTransaction(connection, transaction, [wallet], { commitment: 'confirmed' });
+
+  const [row] = await sql<MerkleAnchor[]>`
+    INSERT INTO merkle_anchors (
+      agent_id, session_id, merkle_root, size, first_log_id, last_log_id, signature, wallet_address
+    ) VALUES (
+      ${agentId}, ${sessionId}, ${latest.proof.merkleRoot}, ${range.size},
+      ${range.firstLogId}, ${latest.id}, ${signature}, ${wallet.publicKey.toBase58()}
+    )
+    RETURNING *
+  `;
+  return { ...row, size: Number(row.size) };
+}
+
+/**
+ * Checks an anchor end to end: the transaction is confirmed without error, signed by the
+ * anchor's wallet and carries the expected memo, and the root rebuilt from the stored
+ * execution_logs rows still matches the anchored root.
+ */
+export async function verifyAnchor(connection: Connection, anchor: MerkleAnchor): Promise<AnchorVerification> {
+  const result = (valid: boolean, reason?: string): AnchorVerification => ({
+    anchorId: String(anchor.id),
+    signature: anchor.signature,
+    valid,
+    reason
+  });
+
+  const transaction = await connection.getParsedTransaction(anchor.signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0
+  });
+  if (!transaction) return result(false, 'Transaction not found on chain');
+  if (transaction.meta?.err) return result(false, 'Transaction failed on chain');
+
+  const signed = transaction.transaction.message.accountKeys
+    .some(account => account.signer && account.pubkey.toBase58() === anchor.walletAddress);
+  if (!signed) return result(false, `Transaction was not signed by ${anchor.walletAddress}`);
+
+  const expectedMemo = encodeAnchorMemo(anchor);
+  const memoFound = transaction.transaction.message.instructions.some(instruction =>
+    instruction.programId.equals(MEMO_PROGRAM_ID) && (instruction as ParsedInstruction).parsed === expectedMemo
+  );
+  if (!memoFound) return result(false, 'Transaction memo does not commit to the anchored root');
+
+  // Rebuild the root from the rows themselves so a rewritten row cannot hide behind its stored hash
+  const logs = (await getExecutionLogs(anchor.agentId, anchor.sessionId))
+    .filter(log => BigInt(log.id) <= BigInt(anchor.lastLogId));
+  if (logs.length !== anchor.size) {
+    return result(false, `Expected ${anchor.size} proofs up to row ${anchor.lastLogId}, found ${logs.length}`);
+  }
+
+  const leaves = logs.map(log => hashTransition({
+    agentId: log.agentId,
+    sessionId: log.sessionId,
+    timestamp: log.proof.timestamp,
+    from: log.fromState,
+    to: log.toState,
+    action: log.action,
+    params: log.params,
+    configuration: log.proof.configuration,
+    contentHash: log.proof.contentHash
+  }));
+  if (MerkleAccumulator.fromLeaves(leaves).getRoot() !== anchor.merkleRoot) {
+    return result(false, 'Stored history no longer matches the anchored Merkle root');
+  }
+
+  return result(true);
+}
+
+/**
+ * Anchors one session on a fixed interval. Runs that find nothing new are skipped,
+ * and a run never overlaps the previous one.
+ */
+export class SessionAnchorer {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<MerkleAnchor | null> | null = null;
+
+  constructor(
+    private connection: Connection,
+    private wallet: Keypair,
+    private agentId: string,
+    private sessionId: string,
+    private intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.anchorNow().catch(error => {
+        console.error(`[SessionAnchorer] Failed to anchor session ${this.sessionId}:`, error);
+      });
+    }, this.intervalMs);
+
+    // Anchoring is best-effort and should never keep the process alive on its own
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Anchors immediately unless a run is already in flight, in which case that run is returned
+   */
+  anchorNow(): Promise<MerkleAnchor | null> {
+    if (!this.running) {
+      this.running = anchorSession(this.connection, this.wallet, this.agentId, this.sessionId)
+        .finally(() => { this.running = null; });
+    }
+    return this.running;
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Evolunary Proof-Chain Audit
+ *
+ * Reads the transition proofs written to `execution_logs` back in order and
+ * verifies state hashes, the hash chain, Merkle roots, inclusion proofs and signatures.
+ * @module evolunary/audit
+ */
+
+import { Proof, hashTransition } from './proof';
+import { LEGACY_SIGNATURE_ALGORITHM, VerificationKey, createProofSigner, verifyProofSignature } from './signer';
+import { AgentKey, KEY_ROTATION_ACTION, KeyRotation, getAgentKeys, keyValidAt } from './keys';
+import { MerkleAccumulator } from './accumulator';
+import sql from '../utils/sql';
+
+/**
+ * A persisted transition record as stored in `execution_logs`.
+ */
+export interface ExecutionLog {
+  id: string;
+  agentId: string;
+  sessionId: string;
+  fromState: string;
+  toState: string;
+  action: string;
+  params: any;
+  proof: Proof;
+  createdAt: Date;
+}
+
+/** Individual checks applied to every stored proof */
+export type AuditCheck =
+  | 'STATE_HASH'
+  | 'PREV_HASH'
+  | 'STATE_CONTINUITY'
+  | 'MERKLE_ROOT'
+  | 'MERKLE_INCLUSION'
+  | 'SIGNATURE';
+
+/**
+ * Describes the first proof in a session that failed verification.
+ */
+export interface AuditFailure {
+  index: number;       // Position of the proof within the session
+  logId: string;       // Row identifier in execution_logs
+  check: AuditCheck;   // Check that failed
+  message: string;     // Human-readable explanation
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Outcome of auditing a session's proof chain.
+ */
+export interface AuditReport {
+  agentId: string;
+  sessionId: string;
+  totalProofs: number;
+  verifiedProofs: number;
+  valid: boolean;
+  merkleRoot: string | null;             // Root of the last verified proof
+  firstBrokenLink: AuditFailure | null;
+}
+
+/**
+ * Fetches all transition records for a session in insertion order.
+ * JSON columns are read as text so the camelCase transform cannot rename keys
+ * inside params or the configuration, which would change their hash.
+ */
+export async function getExecutionLogs(agentId: string, sessionId: string): Promise<ExecutionLog[]> {
+  const rows = await sql`
+    SELECT id, agent_id, session_id, from_state, to_state, action,
+           params::text AS params, proof::text AS proof, created_at
+    FROM execution_logs
+    WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+    ORDER BY id ASC
+  `;
+  return rows.map(parseExecutionLog);
+}
+
+/**
+ * Fetches the most recent transition record of a session, if any.
+ */
+export async function getLatestExecutionLog(agentId: string, sessionId: string): Promise<ExecutionLog | null> {
+  const [row] = await sql`
+    SELECT id, agent_id, session_id, from_state, to_state, action,
+           params::text AS params, proof::text AS proof, created_at
+    FROM execution_logs
+    WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+    ORDER BY id DESC
+    LIMIT 1
+  `;
+  return row ? parseExecutionLog(row) : null;
+}
+
+/**
+ * Fetches the transitions of a session whose proofs commit to a content hash, in insertion order.
+ */
+export async function getContentCommitments(agentId: string, sessionId: string, contentHash: string): Promise<ExecutionLog[]> {
+  const rows = await sql`
+    SELECT id, agent_id, session_id, from_state, to_state, action,
+           params::text AS params, proof::text AS proof, created_at
+    FROM execution_logs
+    WHERE agent_id = ${agentId} AND session_id = ${sessionId} AND proof->>'contentHash' = ${contentHash}
+    ORDER BY id ASC
+  `;
+  return rows.map(parseExecutionLog);
+}
+
+function parseExecutionLog(row: any): ExecutionLog {
+  return {
+    ...row,
+    params: row.params === null ? null : JSON.parse(row.params),
+    proof: JSON.parse(row.proof)
+  };
+}
+
+/**
+ * Picks the key that verifies a given proof, or null if no trusted key applies.
+ */
+export type ProofKeyResolver = (proof: Proof) => VerificationKey | null;
+
+/**
+ * Resolves the shared public key used to verify proofs of agents without registered keys.
+ * Legacy workers sign with the shared AGENT_PRIVATE_KEY, so the public half is derived from it.
+ * Any key format accepted by createProofSigner works: RSA, Ed25519 or a Solana keypair.
+ */
+export function resolveAgentPublicKey(_agentId: string): VerificationKey {
+  const privateKey = process.env.AGENT_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('AGENT_PRIVATE_KEY is not configured');
+  }
+
+  return createProofSigner(privateKey).publicKey;
+}
+
+/**
+ * Resolves proof keys from an agent's key registry.
+ * A proof is matched by its key id, or by validity window for proofs that predate key ids,
+ * and is only accepted if the key was valid at the proof's timestamp.
+ */
+export function registryKeyResolver(keys: AgentKey[]): ProofKeyResolver {
+  return proof => {
+    const key = proof.keyId !== undefined
+      ? keys.find(candidate => candidate.keyId === proof.keyId)
+      : keys.find(candidate => candidate.algorithm === LEGACY_SIGNATURE_ALGORITHM && keyValidAt(candidate, proof.timestamp));
+    return key && keyValidAt(key, proof.timestamp) ? key.publicKey : null;
+  };
+}
+
+/**
+ * Checks that a transition leaves a state that was active after the previous one.
+ * With orthogonal regions any region's active leaf may move next.
+ */
+function startsFromActiveState(log: ExecutionLog, previous: ExecutionLog): boolean {
+  const configuration = previous.proof.configuration;
+  if (!configuration) {
+    return log.fromState === previous.toState;
+  }
+  return Object.values(configuration).some(path => path[path.length - 1] === log.fromState);
+}
+
+/**
+ * Walks a session's proofs in order and stops at the first broken link.
+ * Each proof was generated when its state hash was the newest Merkle leaf,
+ * so every stateHash is appended to a fresh accumulator before its root is compared.
+ *
+ * A key rotation transition hands verification over to the key it introduces: every later
+ * proof must carry that key id and is verified with the public key from the rotation params,
+ * which the outgoing key signed.
+ *
+ * @param logs - Transition records in insertion order
+ * @param keys - Agent public key, or a resolver picking one per proof; each proof's own algorithm is used
+ */
+export function verifyProofChain(
+  logs: ExecutionLog[],
+  keys: VerificationKey | ProofKeyResolver
+): Omit<AuditReport, 'agentId' | 'sessionId'> {
+  const resolve: ProofKeyResolver = typeof keys === 'function' ? keys : () => keys;
+  let rotatedTo: KeyRotation | null = null;
+  const history: string[] = [];
+  const accumulator = new MerkleAccumulator();
+  let merkleRoot: string | null = null;
+
+  const fail = (index: number, failure: Omit<AuditFailure, 'index' | 'logId'>) => ({
+    totalProofs: logs.length,
+    verifiedProofs: index,
+    valid: false,
+    merkleRoot,
+    firstBrokenLink: { index, logId: String(logs[index].id), ...failure }
+  });
+
+  for (let i = 0; i < logs.length; i++) {
+    const log = logs[i];
+    const { proof } = log;
+
+    const stateHash = hashTransition({
+      agentId: proof.agentId,
+      sessionId: proof.sessionId,
+      timestamp: proof.timestamp,
+      from: log.fromState,
+      to: log.toState,
+      action: log.action,
+      params: log.params,
+      configuration: proof.configuration,
+      contentHash: proof.contentHash
+    });
+    if (proof.agentId !== log.agentId || proof.sessionId !== log.sessionId || proof.stateHash !== stateHash) {
+      return fail(i, {
+        check: 'STATE_HASH',
+        message: 'stateHash does not match the canonical hash of the recorded transition',
+        expected: stateHash,
+        actual: proof.stateHash
+      });
+    }
+
+    const expectedPrev = history[history.length - 1] || '';
+    if (proof.prevHash !== expectedPrev) {
+      return fail(i, {
+        check: 'PREV_HASH',
+        message: 'prevHash does not match the preceding stateHash',
+        expected: expectedPrev,
+        actual: proof.prevHash
+      });
+    }
+
+    if (i > 0 && !startsFromActiveState(log, logs[i - 1])) {
+      return fail(i, {
+        check: 'STATE_CONTINUITY',
+        message: 'Transition does not start from a state active after the previous transition',
+        expected: logs[i - 1].toState,
+        actual: log.fromState
+      });
+    }
+
+    history.push(proof.stateHash);
+    const { root } = accumulator.append(proof.stateHash);
+
+    if (proof.merkleRoot !== root) {
+      return fail(i, {
+        check: 'MERKLE_ROOT',
+        message: 'Stored Merkle root does not match the recomputed history',
+        expected: root,
+        actual: proof.merkleRoot
+      });
+    }
+
+    if (!MerkleAccumulator.verify(proof.stateHash, proof.merkleProof, proof.merkleRoot)) {
+      return fail(i, {
+        check: 'MERKLE_INCLUSION',
+        message: 'Merkle proof does not include stateHash under the stored root'
+      });
+    }
+
+    if (rotatedTo && proof.keyId !== rotatedTo.keyId) {
+      return fail(i, {
+        check: 'SIGNATURE',
+        message: 'Proof is not signed by the key introduced by the last rotation',
+        expected: rotatedTo.keyId,
+        actual: proof.keyId
+      });
+    }
+
+    const publicKey = rotatedTo ? rotatedTo.publicKey : resolve(proof);
+    if (publicKey === null) {
+      return fail(i, {
+        check: 'SIGNATURE',
+        message: proof.keyId !== undefined
+          ? `Key ${proof.keyId} is not registered or was not valid at ${new Date(proof.timestamp).toISOString()}`
+          : `No registered key was valid at ${new Date(proof.timestamp).toISOString()}`
+      });
+    }
+
+    if (!verifyProofSignature(proof, publicKey)) {
+      return fail(i, {
+        check: 'SIGNATURE',
+        message: proof.keyId !== undefined
+          ? `Signature does not verify against the agent public key (signed with ${proof.algorithm ?? LEGACY_SIGNATURE_ALGORITHM} key ${proof.keyId})`
+          : 'Signature does not verify against the agent public key'
+      });
+    }
+
+    if (log.action === KEY_ROTATION_ACTION) {
+      rotatedTo = log.params as KeyRotation;
+    }
+
+    merkleRoot = root;
+  }
+
+  return {
+    totalProofs: logs.length,
+    verifiedProofs: logs.length,
+    valid: true,
+    merkleRoot,
+    firstBrokenLink: null
+  };
+}
+
+/**
+ * Audits the full proof chain of an agent session.
+ *
+ * @param agentId - Agent whose proofs are verified
+ * @param sessionId - Session scope of the proof chain
+ * @param publicKey - Optional override; defaults to the agent's registered keys, or the
+ * shared key for agents that have none
+ */
+export async function auditSession(
+  agentId: string,
+  sessionId: string,
+  publicKey?: VerificationKey
+): Promise<AuditReport> {
+  const logs = await getExecutionLogs(agentId, sessionId);
+  let keys: VerificationKey | ProofKeyResolver | undefined = publicKey;
+  if (!keys) {
+    const registered = await getAgentKeys(agentId);
+    keys = registered.length ? registryKeyResolver(registered) : resolveAgentPublicKey(agentId);
+  }
+
+  const result = verifyProofChain(logs, keys);
+  return { agentId, sessionId, ...result };
+}
@@ -0,0 +1,142 @@
+/**
+ * Evolunary Statecharts
+ *
+ * Nested (compound) states and orthogonal regions layered over a flat transition table.
+ * A machine keeps one active leaf per region; a leaf is active together with all of its ancestors.
+ * @module evolunary/chart
+ */
+
+/** Region that holds every state not assigned to an orthogonal region */
+export const MAIN_REGION = 'main';
+
+/**
+ * An orthogonal region running alongside the main one.
+ */
+export interface RegionDefinition<State extends string> {
+  initial: State;     // State the region starts in and returns to when idle
+  states: State[];    // States owned by the region
+}
+
+/**
+ * Hierarchy and concurrency declared alongside a transition table.
+ * Transitions declared on a compound state apply to all of its descendants.
+ */
+export interface StateChartStructure<State extends string> {
+  parents?: Partial<Record<State, State>>;             // Key: nested state, Value: enclosing compound state
+  initialChildren?: Partial<Record<State, State>>;     // Key: compound state, Value: child entered when it is targeted
+  regions?: Record<string, RegionDefinition<State>>;   // Orthogonal regions keyed by name
+}
+
+/**
+ * Active configuration: for every region, the active path from outermost state to leaf.
+ */
+export type StateConfiguration<State extends string = string> = Record<string, State[]>;
+
+export class StateChart<State extends string> {
+  private parents: Map<State, State>;
+  private initialChildren: Map<State, State>;
+  private regionOfState = new Map<State, string>();
+  private regionInitials = new Map<string, State>();
+
+  constructor(states: State[], structure: StateChartStructure<State> = {}) {
+    this.parents = new Map(Object.entries(structure.parents || {}) as [State, State][]);
+    this.initialChildren = new Map(Object.entries(structure.initialChildren || {}) as [State, State][]);
+
+    Object.entries(structure.regions || {}).forEach(([name, region]) => {
+      this.regionInitials.set(name, region.initial);
+      region.states.forEach(state => this.regionOfState.set(state, name));
+    });
+    states.forEach(state => {
+      if (!this.regionOfState.has(state)) this.regionOfState.set(state, MAIN_REGION);
+    });
+  }
+
+  /** Whether any nesting or orthogonal region is declared */
+  get isFlat(): boolean {
+    return this.parents.size === 0 && this.regionInitials.size === 0;
+  }
+
+  /** Names of the orthogonal regions, excluding the main region */
+  get regions(): string[] {
+    return Array.from(this.regionInitials.keys());
+  }
+
+  /** Initial state of an orthogonal region */
+  regionInitial(region: string): State | undefined {
+    return this.regionInitials.get(region);
+  }
+
+  /** Region owning a state */
+  regionOf(state: State): string {
+    return this.regionOfState.get(state) ?? MAIN_REGION;
+  }
+
+  /** Enclosing compound state, if any */
+  parentOf(state: State): State | undefined {
+    return this.parents.get(state);
+  }
+
+  /** Default child entered when a compound state is targeted */
+  initialChildOf(state: State): State | undefined {
+    return this.initialChildren.get(state);
+  }
+
+  /**
+   * Returns the state followed by its ancestors, innermost first.
+   * Stops on a cycle so a malformed hierarchy cannot loop forever.
+   */
+  ancestry(state: State): State[] {
+    const chain: State[] = [state];
+    let parent = this.parents.get(state);
+    while (parent !== undefined && !chain.includes(parent)) {
+      chain.push(parent);
+      parent = this.parents.get(parent);
+    }
+    return chain;
+  }
+
+  /**
+   * Resolves a target to the leaf actually entered by following initial children.
+   */
+  resolveLeaf(state: State): State {
+    const seen = new Set<State>([state]);
+    let leaf = state;
+    let child = this.initialChildren.get(leaf);
+    while (child !== undefined && !seen.has(child)) {
+      seen.add(child);
+      leaf = child;
+      child = this.initialChildren.get(leaf);
+    }
+    return leaf;
+  }
+
+  /**
+   * States exited and entered when moving between two leaves of the same region.
+   * Exits run innermost first, entries outermost first. A transition back into the
+   * current leaf exits and re-enters it.
+   */
+  pathDelta(fromLeaf: State, toLeaf: State): { exited: State[]; entered: State[] } {
+    const fromPath = this.ancestry(fromLeaf);
+    const toPath = this.ancestry(toLeaf);
+
+    if (fromLeaf === toLeaf) {
+      return { exited: [fromLeaf], entered: [toLeaf] };
+    }
+
+    return {
+      exited: fromPath.filter(state => !toPath.includes(state)),
+      entered: toPath.filter(state => !fromPath.includes(state)).reverse()
+    };
+  }
+
+  /**
+   * Expands active leaves into the full configuration, outermost state first.
+   */
+  configuration(leaves: Map<string, State>): StateConfiguration<State> {
+    const configuration: StateConfiguration<State> = {};
+    leaves.forEach((leaf, region) => {
+      configuration[region] = this.ancestry(leaf).reverse();
+    });
+    return configuration;
+  }
+}
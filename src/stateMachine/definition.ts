@@ -0,0 +1,361 @@
+/**
+ * Evolunary State Machine Definitions
+ *
+ * Declarative machine documents (JSON or YAML) that can be loaded at runtime,
+ * plus static validation of any transition table before it is used.
+ * @module evolunary/definition
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import YAML from 'yaml';
+import { MAIN_REGION, StateChart, StateChartStructure } from './chart';
+import { DwellTimeout, DwellTimeouts, toDwellTimeout } from './watchdog';
+import { EventTable } from './events';
+
+/**
+ * Declarative description of a state machine.
+ * May declare nested states and orthogonal regions; the ready, error and initial
+ * states always belong to the main region.
+ */
+export interface MachineDefinition<State extends string = string> extends StateChartStructure<State> {
+  name: string;
+  initial: State;                        // State a new machine starts in
+  states: State[];
+  transitions: Record<State, State[]>;   // Key: current state, Value: valid next states
+  readyState?: State;                    // Idle state every path must return to (default 'READY')
+  errorState?: State;                    // State every other state must be able to fail into (default 'ERROR')
+  terminal?: State[];                    // States allowed to end the machine without returning to ready
+  timeouts?: DwellTimeouts<State>;       // Maximum dwell time per state before the watchdog fires
+  events?: EventTable<State>;            // Key: state, then event type; Value: target state
+}
+
+export type ValidationIssueCode =
+  | 'INVALID_DOCUMENT'
+  | 'DUPLICATE_STATE'
+  | 'UNKNOWN_STATE'
+  | 'UNREACHABLE_STATE'
+  | 'DEAD_END'
+  | 'MISSING_ERROR_EDGE'
+  | 'INVALID_HIERARCHY'
+  | 'INVALID_TIMEOUT'
+  | 'INVALID_EVENT';
+
+/**
+ * A single problem found while validating a definition.
+ */
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  message: string;
+  state?: string;
+  target?: string;
+}
+
+/**
+ * Raised when a definition fails validation; carries every issue found.
+ */
+export class MachineDefinitionError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(name: string, issues: ValidationIssue[]) {
+    super(`Invalid state machine definition "${name}":\n- ${issues.map(issue => issue.message).join('\n- ')}`);
+    this.name = 'MachineDefinitionError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Collects every state reachable from `start` following `edges`.
+ */
+function reachable(start: string, edges: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>([start]);
+  const queue = [start];
+  while (queue.length) {
+    for (const next of edges.get(queue.shift()!) || []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Statically validates a definition.
+ * Flags unknown and duplicate states, malformed nesting or regions, states unreachable
+ * from their region's initial state, dead ends with no path back to the ready state
+ * (or, inside an orthogonal region, to the region's initial state), and main-region
+ * states without an error edge. Transitions declared on a compound state count for
+ * all of its descendants. Dwell timeouts must be positive and target a state the timed
+ * state can actually transition to. Every event must target a state its source state
+ * (or an enclosing compound state) declares a transition to.
+ *
+ * @returns Every issue found; an empty array means the definition is usable
+ */
+export function validateMachineDefinition(definition: MachineDefinition): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!definition || !Array.isArray(definition.states) || !definition.transitions || typeof definition.transitions !== 'object') {
+    return [{ code: 'INVALID_DOCUMENT', message: 'Definition must declare a states array and a transitions map' }];
+  }
+
+  // The chart cannot be built over a region without a states array
+  const malformedRegions = Object.entries(definition.regions || {}).filter(([, region]) => !Array.isArray(region?.states));
+  if (malformedRegions.length) {
+    return malformedRegions.map(([name]) => ({
+      code: 'INVALID_DOCUMENT',
+      state: name,
+      message: `Region ${name} must declare a states array`
+    }));
+  }
+
+  const readyState = definition.readyState ?? 'READY';
+  const errorState = definition.errorState ?? 'ERROR';
+  const terminal = new Set<string>(definition.terminal || []);
+  const states = new Set<string>();
+
+  definition.states.forEach(state => {
+    if (states.has(state)) {
+      issues.push({ code: 'DUPLICATE_STATE', state, message: `State ${state} is declared more than once` });
+    }
+    states.add(state);
+  });
+
+  const requireKnown = (state: string, role: string) => {
+    if (!states.has(state)) {
+      issues.push({ code: 'UNKNOWN_STATE', state, message: `${role} ${state} is not a declared state` });
+      return false;
+    }
+    return true;
+  };
+
+  const initialKnown = requireKnown(definition.initial, 'Initial state');
+  const readyKnown = requireKnown(readyState, 'Ready state');
+  const errorKnown = requireKnown(errorState, 'Error state');
+  terminal.forEach(state => requireKnown(state, 'Terminal state'));
+
+  const chart = new StateChart<string>(definition.states, definition);
+  const hierarchyIssue = (state: string, message: string) => {
+    issues.push({ code: 'INVALID_HIERARCHY', state, message });
+  };
+
+  // Regions must own distinct, known states and start in one of them
+  const owner = new Map<string, string>();
+  Object.entries(definition.regions || {}).forEach(([name, region]) => {
+    if (name === MAIN_REGION) {
+      hierarchyIssue(name, `Region name ${MAIN_REGION} is reserved`);
+    }
+    region.states.forEach(state => {
+      if (!requireKnown(state, `State of region ${name}`)) return;
+      if (owner.has(state)) {
+        hierarchyIssue(state, `State ${state} belongs to both regions ${owner.get(state)} and ${name}`);
+      }
+      owner.set(state, name);
+    });
+    if (!region.states.includes(region.initial)) {
+      hierarchyIssue(region.initial, `Initial state ${region.initial} of region ${name} is not one of its states`);
+    }
+  });
+
+  [[definition.initial, 'Initial'], [readyState, 'Ready'], [errorState, 'Error']].forEach(([state, role]) => {
+    if (states.has(state) && chart.regionOf(state) !== MAIN_REGION) {
+      hierarchyIssue(state, `${role} state ${state} must belong to the ${MAIN_REGION} region`);
+    }
+  });
+
+  // Nesting must be acyclic, stay within one region and name a default child for every compound state
+  const compounds = new Set<string>();
+  Object.entries(definition.parents || {}).forEach(([child, parent]) => {
+    if (!requireKnown(child, 'Nested state') || !requireKnown(parent as string, 'Parent state')) return;
+    compounds.add(parent as string);
+    if (chart.regionOf(child) !== chart.regionOf(parent as string)) {
+      hierarchyIssue(child, `State ${child} and its parent ${parent} belong to different regions`);
+    }
+  });
+  states.forEach(state => {
+    const ancestry = chart.ancestry(state);
+    if (chart.parentOf(ancestry[ancestry.length - 1]) !== undefined) {
+      hierarchyIssue(state, `State ${state} is part of a nesting cycle`);
+    }
+  });
+  compounds.forEach(compound => {
+    const child = chart.initialChildOf(compound);
+    if (child === undefined) {
+      hierarchyIssue(compound, `Compound state ${compound} has no initial child`);
+    }
+  });
+  Object.entries(definition.initialChildren || {}).forEach(([compound, child]) => {
+    if (chart.parentOf(child as string) !== compound) {
+      hierarchyIssue(compound, `Initial child ${child} of ${compound} is not nested in it`);
+    }
+  });
+
+  // Declared edges over known states only
+  const declared = new Map<string, string[]>();
+  Object.entries(definition.transitions).forEach(([from, targets]) => {
+    if (!requireKnown(from, 'Transition source')) return;
+    if (!Array.isArray(targets)) {
+      issues.push({ code: 'INVALID_DOCUMENT', state: from, message: `Transitions from ${from} must be an array` });
+      return;
+    }
+
+    declared.set(from, targets.filter(to => {
+      if (!states.has(to)) {
+        issues.push({ code: 'UNKNOWN_STATE', state: from, target: to, message: `Transition ${from} -> ${to} targets an unknown state` });
+        return false;
+      }
+      if (chart.regionOf(to) !== chart.regionOf(from)) {
+        hierarchyIssue(from, `Transition ${from} -> ${to} crosses regions`);
+        return false;
+      }
+      return true;
+    }));
+  });
+
+  // Effective edges: transitions inherited from ancestors, plus descent into initial children
+  const inherited = (state: string) => chart.ancestry(state).flatMap(ancestor => declared.get(ancestor) || []);
+  const edges = new Map<string, string[]>();
+  const reverse = new Map<string, string[]>();
+  states.forEach(from => {
+    const child = chart.initialChildOf(from);
+    const targets = [...inherited(from), ...(child !== undefined && states.has(child) ? [child] : [])];
+    edges.set(from, targets);
+    targets.forEach(to => reverse.set(to, [...(reverse.get(to) || []), from]));
+  });
+
+  // Each region is explored from its own start and must be able to return home
+  const homes = new Map<string, string>();
+  if (initialKnown) homes.set(MAIN_REGION, definition.initial);
+  chart.regions.forEach(region => {
+    const initial = chart.regionInitial(region)!;
+    if (states.has(initial)) homes.set(region, initial);
+  });
+
+  const fromStart = new Set<string>();
+  homes.forEach(start => {
+    reachable(start, edges).forEach(state => {
+      chart.ancestry(state).forEach(active => fromStart.add(active));
+    });
+  });
+  states.forEach(state => {
+    const start = homes.get(chart.regionOf(state));
+    if (start !== undefined && !fromStart.has(state)) {
+      issues.push({ code: 'UNREACHABLE_STATE', state, message: `State ${state} is unreachable from ${start}` });
+    }
+  });
+
+  const toHome = new Map<string, Set<string>>();
+  states.forEach(state => {
+    const region = chart.regionOf(state);
+    const home = region === MAIN_REGION ? (readyKnown ? readyState : undefined) : homes.get(region);
+    if (home === undefined || terminal.has(state)) return;
+    if (!toHome.has(home)) toHome.set(home, reachable(home, reverse));
+    if (!toHome.get(home)!.has(state)) {
+      issues.push({ code: 'DEAD_END', state, message: `State ${state} has no path back to ${home}` });
+    }
+  });
+
+  if (errorKnown) {
+    states.forEach(state => {
+      if (state === errorState || terminal.has(state) || chart.regionOf(state) !== MAIN_REGION) return;
+      if (!inherited(state).includes(errorState)) {
+        issues.push({ code: 'MISSING_ERROR_EDGE', state, message: `State ${state} has no transition to ${errorState}` });
+      }
+    });
+  }
+
+  Object.entries(definition.timeouts || {}).forEach(([state, declared]) => {
+    if (!requireKnown(state, 'Timed state')) return;
+    const timeout = toDwellTimeout(declared as number | DwellTimeout<string>);
+    const target = timeout.fallback ?? errorState;
+
+    if (!Number.isFinite(timeout.after) || timeout.after <= 0) {
+      issues.push({ code: 'INVALID_TIMEOUT', state, message: `Dwell timeout of ${state} must be a positive number of milliseconds` });
+    }
+    if (!states.has(target)) {
+      issues.push({ code: 'INVALID_TIMEOUT', state, target, message: `Dwell timeout of ${state} targets an unknown state ${target}` });
+    } else if (!inherited(state).includes(target)) {
+      issues.push({ code: 'INVALID_TIMEOUT', state, target, message: `State ${state} times out to ${target} but has no transition to it` });
+    }
+  });
+
+  Object.entries(definition.events || {}).forEach(([state, table]) => {
+    if (!requireKnown(state, 'Event source')) return;
+    if (!table || typeof table !== 'object') {
+      issues.push({ code: 'INVALID_EVENT', state, message: `Events of ${state} must be a map of event type to target state` });
+      return;
+    }
+
+    Object.entries(table).forEach(([type, target]) => {
+      if (!states.has(target as string)) {
+        issues.push({ code: 'INVALID_EVENT', state, target: target as string, message: `Event ${type} of ${state} targets an unknown state ${target}` });
+      } else if (!inherited(state).includes(target as string)) {
+        issues.push({ code: 'INVALID_EVENT', state, target: target as string, message: `Event ${type} of ${state} targets ${target} but ${state} has no transition to it` });
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Validates a definition and returns it, throwing if any issue was found.
+ * Use for transition tables declared in code as well as loaded documents.
+ */
+export function defineMachine<State extends string>(definition: MachineDefinition<State>): MachineDefinition<State> {
+  const issues = validateMachineDefinition(definition);
+  if (issues.length) {
+    throw new MachineDefinitionError(definition?.name ?? 'unnamed', issues);
+  }
+  return definition;
+}
+
+/**
+ * Parses and validates a definition document.
+ *
+ * @param source - Raw JSON or YAML text
+ * @param format - Document format
+ */
+export function parseMachineDefinition(source: string, format: 'json' | 'yaml'): MachineDefinition {
+  let document: any;
+  try {
+    document = format === 'json' ? JSON.parse(source) : YAML.parse(source);
+  } catch (error) {
+    throw new MachineDefinitionError('unparsed', [{ code: 'INVALID_DOCUMENT', message: error.message }]);
+  }
+  return defineMachine(document);
+}
+
+/**
+ * Loads and validates a definition from a `.json`, `.yaml` or `.yml` file.
+ */
+export async function loadMachineDefinition(filePath: string): Promise<MachineDefinition> {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(`Unsupported state machine definition format: ${extension || filePath}`);
+  }
+
+  const source = await fs.readFile(filePath, 'utf-8');
+  return parseMachineDefinition(source, extension === '.json' ? 'json' : 'yaml');
+}
+
+/**
+ * Loads every definition document in a directory, keyed by definition name.
+ */
+export async function loadMachineDefinitions(directory: string): Promise<Map<string, MachineDefinition>> {
+  const definitions = new Map<string, MachineDefinition>();
+  const files = (await fs.readdir(directory))
+    .filter(file => /\.(json|ya?ml)$/i.test(file))
+    .sort();
+
+  for (const file of files) {
+    const definition = await loadMachineDefinition(path.join(directory, file));
+    if (definitions.has(definition.name)) {
+      throw new Error(`Duplicate state machine definition "${definition.name}" in ${file}`);
+    }
+    definitions.set(definition.name, definition);
+  }
+
+  return definitions;
+}
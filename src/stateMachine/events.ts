@@ -0,0 +1,67 @@
+/**
+ * Evolunary State Machine Events
+ *
+ * Typed events for the event-driven machine API. A machine's event table maps
+ * (state, event type) to a target state; sending an event resolves the target from
+ * the active path, innermost state first, and runs it as an ordinary transition whose
+ * action is the event type and whose params are the event payload.
+ * @module evolunary/events
+ */
+
+import { StateChart } from './chart';
+
+/**
+ * Payload type of every event a machine accepts, keyed by event type.
+ * Events without a payload map to `undefined` or `void`.
+ */
+export type EventPayloads = Record<string, any>;
+
+/**
+ * Union of the events a machine accepts. The payload is optional only for events
+ * whose payload type admits undefined.
+ */
+export type MachineEvent<Events extends EventPayloads = EventPayloads> = {
+  [Type in keyof Events & string]: undefined extends Events[Type]
+    ? { type: Type; payload?: Events[Type] }
+    : { type: Type; payload: Events[Type] }
+}[keyof Events & string];
+
+/**
+ * Context payload held by each state while it is active, keyed by state.
+ * A state's context is the payload of the transition that entered it.
+ */
+export type StateContexts<State extends string> = { [S in State]?: any };
+
+/**
+ * Target state of each event, per state. Key: state, then event type.
+ * An event declared on a compound state applies to all of its descendants.
+ */
+export type EventTable<State extends string, Events extends EventPayloads = EventPayloads> =
+  Partial<Record<State, Partial<Record<keyof Events & string, State>>>>;
+
+/**
+ * Finds the target of an event from an active leaf, checking the innermost state first.
+ */
+export function resolveEvent<State extends string>(
+  chart: StateChart<State>,
+  table: EventTable<State>,
+  leaf: State,
+  type: string
+): State | undefined {
+  for (const state of chart.ancestry(leaf)) {
+    const target = table[state]?.[type];
+    if (target !== undefined) return target;
+  }
+  return undefined;
+}
+
+/**
+ * Lists the event types handled anywhere on a leaf's active path.
+ */
+export function eventsFrom<State extends string>(chart: StateChart<State>, table: EventTable<State>, leaf: State): string[] {
+  const types = new Set<string>();
+  chart.ancestry(leaf).forEach(state => {
+    Object.keys(table[state] || {}).forEach(type => types.add(type));
+  });
+  return Array.from(types);
+}
@@ -0,0 +1,227 @@
+/**
+ * Evolunary State Machine Graphs
+ *
+ * Renders machine definitions as Graphviz DOT or Mermaid text, with the active
+ * configuration highlighted. Compound states and orthogonal regions become clusters.
+ * @module evolunary/graph
+ */
+
+import { MAIN_REGION, StateChart, StateConfiguration } from './chart';
+import { MachineDefinition } from './definition';
+
+/** Supported text formats for graph export */
+export type GraphFormat = 'dot' | 'mermaid';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid'];
+
+/** Fill colour used for active states and the current tree node */
+export const HIGHLIGHT_COLOR = '#ffd166';
+
+/**
+ * Quotes an identifier or label for DOT.
+ */
+export function dotQuote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Container layout shared by both renderers: every state sits in its parent
+ * compound state, or at the top of its region.
+ */
+function layout(definition: MachineDefinition) {
+  const chart = new StateChart<string>(definition.states, definition);
+  const regions = [MAIN_REGION, ...chart.regions];
+  const isParallel = chart.regions.length > 0;
+
+  const children = new Map<string, string[]>();
+  definition.states.forEach(state => {
+    const container = chart.parentOf(state) ?? `region:${chart.regionOf(state)}`;
+    children.set(container, [...(children.get(container) || []), state]);
+  });
+
+  // Each edge is drawn in the innermost container holding both ends
+  const containerOf = (state: string) => chart.parentOf(state) ?? `region:${chart.regionOf(state)}`;
+  const edgeContainer = (from: string, to: string) => {
+    const fromContainers = chart.ancestry(from).slice(1).concat(`region:${chart.regionOf(from)}`);
+    const toAncestry = chart.ancestry(to);
+    return fromContainers.find(container => toAncestry.includes(container)) ?? containerOf(to);
+  };
+
+  // Edges are labelled with the events that take them, if any
+  const edges = new Map<string, [string, string, string][]>();
+  Object.entries(definition.transitions).forEach(([from, targets]) => {
+    (targets as string[]).forEach(to => {
+      const container = edgeContainer(from, to);
+      const label = Object.entries(definition.events?.[from] || {})
+        .filter(([, target]) => target === to)
+        .map(([type]) => type)
+        .join(', ');
+      edges.set(container, [...(edges.get(container) || []), [from, to, label]]);
+    });
+  });
+
+  const initials = new Map<string, string>();
+  initials.set(`region:${MAIN_REGION}`, definition.initial);
+  chart.regions.forEach(region => initials.set(`region:${region}`, chart.regionInitial(region)!));
+  definition.states.forEach(state => {
+    const child = chart.initialChildOf(state);
+    if (child !== undefined) initials.set(state, child);
+  });
+
+  return { regions, isParallel, children, edges, initials };
+}
+
+/**
+ * States active in a configuration, with the leaf of every region.
+ */
+function activeStates(configuration?: StateConfiguration): { active: Set<string>; leaves: Set<string> } {
+  const paths = Object.values(configuration || {});
+  return {
+    active: new Set(paths.flat()),
+    leaves: new Set(paths.map(path => path[path.length - 1]))
+  };
+}
+
+/**
+ * Renders a machine definition as a Graphviz digraph.
+ * Compound states are clusters entered through a dashed node of their own.
+ *
+ * @param definition - Machine to render
+ * @param configuration - Active configuration to highlight
+ */
+export function machineToDot(definition: MachineDefinition, configuration?: StateConfiguration): string {
+  const { regions, isParallel, children, edges, initials } = layout(definition);
+  const { active, leaves } = activeStates(configuration);
+  const lines: string[] = [
+    `digraph ${dotQuote(definition.name)} {`,
+    '  compound=true;',
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded, fontname="Helvetica"];'
+  ];
+
+  const nodeLine = (state: string, indent: string) => {
+    const attributes = [`label=${dotQuote(state)}`];
+    const styles = ['rounded'];
+    if (children.has(state)) styles.push('dashed');
+    if (active.has(state)) {
+      styles.push('filled');
+      attributes.push(`fillcolor=${dotQuote(HIGHLIGHT_COLOR)}`);
+    }
+    if (leaves.has(state)) attributes.push('penwidth=2');
+    attributes.push(`style=${dotQuote(styles.join(','))}`);
+    return `${indent}${dotQuote(state)} [${attributes.join(', ')}];`;
+  };
+
+  const edgeLine = (from: string, to: string, label: string, indent: string) => {
+    const attributes: string[] = [];
+    if (label) attributes.push(`label=${dotQuote(label)}`);
+    if (children.has(from)) attributes.push(`ltail=${dotQuote(`cluster_${from}`)}`);
+    if (children.has(to)) attributes.push(`lhead=${dotQuote(`cluster_${to}`)}`);
+    return `${indent}${dotQuote(from)} -> ${dotQuote(to)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`;
+  };
+
+  const renderContainer = (container: string, indent: string) => {
+    const initial = initials.get(container);
+    if (initial !== undefined) {
+      const start = dotQuote(`__start_${container}`);
+      lines.push(`${indent}${start} [shape=point, label=""];`);
+      lines.push(`${indent}${start} -> ${dotQuote(initial)};`);
+    }
+
+    (children.get(container) || []).forEach(state => {
+      if (children.has(state)) {
+        lines.push(`${indent}subgraph ${dotQuote(`cluster_${state}`)} {`);
+        lines.push(`${indent}  label=${dotQuote(state)};`);
+        lines.push(`${indent}  style=${dotQuote(active.has(state) ? 'rounded,bold' : 'rounded')};`);
+        lines.push(nodeLine(state, `${indent}  `));
+        renderContainer(state, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else {
+        lines.push(nodeLine(state, indent));
+      }
+    });
+
+    (edges.get(container) || []).forEach(([from, to, label]) => lines.push(edgeLine(from, to, label, indent)));
+  };
+
+  regions.forEach(region => {
+    if (isParallel) {
+      lines.push(`  subgraph ${dotQuote(`cluster_region_${region}`)} {`);
+      lines.push(`    label=${dotQuote(region)};`);
+      lines.push('    style=dotted;');
+      renderContainer(`region:${region}`, '    ');
+      lines.push('  }');
+    } else {
+      renderContainer(`region:${region}`, '  ');
+    }
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders a machine definition as a Mermaid state diagram.
+ * Compound states and orthogonal regions become composite states.
+ *
+ * @param definition - Machine to render
+ * @param configuration - Active configuration to highlight
+ */
+export function machineToMermaid(definition: MachineDefinition, configuration?: StateConfiguration): string {
+  const { regions, isParallel, children, edges, initials } = layout(definition);
+  const { active } = activeStates(configuration);
+  const lines: string[] = ['stateDiagram-v2'];
+
+  const renderContainer = (container: string, indent: string) => {
+    const initial = initials.get(container);
+    if (initial !== undefined) {
+      lines.push(`${indent}[*] --> ${initial}`);
+    }
+
+    (children.get(container) || []).forEach(state => {
+      if (children.has(state)) {
+        lines.push(`${indent}state ${state} {`);
+        renderContainer(state, `${indent}    `);
+        lines.push(`${indent}}`);
+      } else {
+        lines.push(`${indent}${state}`);
+      }
+    });
+
+    (edges.get(container) || []).forEach(([from, to, label]) => {
+      lines.push(`${indent}${from} --> ${to}${label ? ` : ${label}` : ''}`);
+    });
+  };
+
+  regions.forEach(region => {
+    if (isParallel) {
+      lines.push(`    state ${region} {`);
+      renderContainer(`region:${region}`, '        ');
+      lines.push('    }');
+    } else {
+      renderContainer(`region:${region}`, '    ');
+    }
+  });
+
+  // Mermaid cannot style composite states, so only active simple states are highlighted
+  const highlighted = Array.from(active).filter(state => !children.has(state));
+  if (highlighted.length) {
+    lines.push(`    classDef active fill:${HIGHLIGHT_COLOR},stroke:#333,stroke-width:2px`);
+    lines.push(`    class ${highlighted.join(',')} active`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a machine definition in the requested format.
+ */
+export function renderMachine(
+  definition: MachineDefinition,
+  configuration: StateConfiguration | undefined,
+  format: GraphFormat
+): string {
+  return format === 'dot'
+    ? machineToDot(definition, configuration)
+    : machineToMermaid(definition, configuration);
+}
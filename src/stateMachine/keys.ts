@@ -0,0 +1,207 @@
+/**
+ * Evolunary Agent Key Registry
+ *
+ * Per-agent signing keys with validity windows, persisted in `agent_keys`.
+ * Keys are derived from AGENT_KEY_SECRET per agent and generation, so a worker can
+ * rebuild its current key after a restart, while the registry keeps every public key
+ * that ever signed a proof.
+ * @module evolunary/keys
+ */
+
+import { KeyObject, createPrivateKey, hkdfSync } from 'crypto';
+import { ProofSigner, SignatureAlgorithm, VerificationKey, createProofSigner } from './signer';
+import postgres from 'postgres';
+import sql from '../utils/sql';
+
+/** Action recorded on the transition that hands signing over to a new key */
+export const KEY_ROTATION_ACTION = 'ROTATE_KEY';
+
+/** PKCS#8 DER prefix of an Ed25519 private key; the 32-byte seed follows it */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/**
+ * A registered public key, as stored in `agent_keys`.
+ */
+export interface AgentKey {
+  agentId: string;
+  keyId: string;
+  generation: number;          // Derivation counter; bumped on every rotation
+  algorithm: SignatureAlgorithm;
+  publicKey: string;           // PEM SPKI, or a base58 address for Solana keys
+  validFrom: Date;
+  validUntil: Date | null;     // Set when the key is rotated out
+  rotatedTo: string | null;    // Key id of the successor
+  createdAt: Date;
+}
+
+/**
+ * Parameters of a key rotation transition. The transition is signed by the outgoing key.
+ */
+export interface KeyRotation {
+  keyId: string;
+  algorithm: SignatureAlgorithm;
+  publicKey: string;
+  generation: number;
+  previousKeyId: string;
+}
+
+/**
+ * Serializes a verification key for storage: PEM for key objects, strings as given.
+ */
+export function exportVerificationKey(publicKey: VerificationKey): string {
+  return typeof publicKey === 'string'
+    ? publicKey
+    : (publicKey as KeyObject).export({ format: 'pem', type: 'spki' }).toString();
+}
+
+/**
+ * Derives an agent's Ed25519 private key for a generation with HKDF-SHA256.
+ * @returns Hex PKCS#8 DER, as accepted by createProofSigner
+ */
+export function deriveAgentPrivateKey(secret: string, agentId: string, generation: number): string {
+  const seed = Buffer.from(hkdfSync('sha256', secret, agentId, `evolunary/agent-key/${generation}`, 32));
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  return privateKey.export({ format: 'der', type: 'pkcs8' }).toString('hex');
+}
+
+function toAgentKey(row: any): AgentKey {
+  return { ...row, generation: Number(row.generation) };
+}
+
+/**
+ * Fetches every key an agent has signed with, oldest first.
+ */
+export async function getAgentKeys(agentId: string): Promise<AgentKey[]> {
+  const rows = await sql`
+    SELECT * FROM agent_keys WHERE agent_id = ${agentId}
+    ORDER BY valid_from ASC, generation ASC
+  `;
+  return rows.map(toAgentKey);
+}
+
+/**
+ * Fetches the key an agent currently signs with, if one is registered.
+ */
+export async function getCurrentAgentKey(agentId: string): Promise<AgentKey | null> {
+  const [row] = await sql`
+    SELECT * FROM agent_keys
+    WHERE agent_id = ${agentId} AND valid_until IS NULL
+    ORDER BY generation DESC
+    LIMIT 1
+  `;
+  return row ? toAgentKey(row) : null;
+}
+
+/**
+ * Registers a signer's public key for an agent. Registering the same key twice is a no-op.
+ */
+export async function registerAgentKey(
+  agentId: string,
+  signer: ProofSigner,
+  generation: number,
+  validFrom: Date = new Date()
+): Promise<void> {
+  await sql`
+    INSERT INTO agent_keys (agent_id, key_id, generation, algorithm, public_key, valid_from)
+    VALUES (${agentId}, ${signer.keyId}, ${generation}, ${signer.algorithm}, ${exportVerificationKey(signer.publicKey)}, ${validFrom})
+    ON CONFLICT (agent_id, key_id) DO NOTHING
+  `;
+}
+
+/**
+ * Closes the outgoing key's validity window and opens the successor's at the same instant.
+ * Runs inside the given transaction, e.g. the one persisting the rotation proof, or in its own.
+ */
+export async function recordKeyRotation(
+  agentId: string,
+  rotation: KeyRotation,
+  at: Date,
+  tx?: postgres.TransactionSql
+): Promise<void> {
+  if (!tx) {
+    await sql.begin(tx => recordKeyRotation(agentId, rotation, at, tx));
+    return;
+  }
+
+  await tx`
+    UPDATE agent_keys
+    SET valid_until = ${at}, rotated_to = ${rotation.keyId}
+    WHERE agent_id = ${agentId} AND key_id = ${rotation.previousKeyId}
+  `;
+  await tx`
+    INSERT INTO agent_keys (agent_id, key_id, generation, algorithm, public_key, valid_from)
+    VALUES (${agentId}, ${rotation.keyId}, ${rotation.generation}, ${rotation.algorithm}, ${rotation.publicKey}, ${at})
+  `;
+}
+
+/**
+ * Whether a key was valid when a proof was created. Both ends are inclusive, since the
+ * rotation proof is signed by the outgoing key at the instant the successor takes over.
+ */
+export function keyValidAt(key: AgentKey, timestamp: number): boolean {
+  return new Date(key.validFrom).getTime() <= timestamp &&
+    (key.validUntil === null || timestamp <= new Date(key.validUntil).getTime());
+}
+
+/**
+ * Timestamp of the earliest proof an agent signed, or null if it has none yet
+ */
+async function firstProofAt(agentId: string): Promise<Date | null> {
+  const [row] = await sql<{ first: string | null }[]>`
+    SELECT MIN((proof->>'timestamp')::bigint) AS first
+    FROM execution_logs
+    WHERE agent_id = ${agentId}
+  `;
+  return row?.first ? new Date(Number(row.first)) : null;
+}
+
+/**
+ * Returns the private key an agent should sign with and makes sure its public half is registered.
+ * With AGENT_KEY_SECRET set the key is derived for the agent's current generation; otherwise the
+ * shared AGENT_PRIVATE_KEY is used and registered for the agent.
+ * A key registered for an agent with existing history is valid from its first proof, since
+ * that history was signed before the registry knew the key.
+ */
+export async function provisionAgentKey(agentId: string): Promise<string> {
+  const secret = process.env.AGENT_KEY_SECRET;
+  const current = await getCurrentAgentKey(agentId);
+  const generation = current?.generation ?? 0;
+
+  let privateKey: string;
+  if (secret) {
+    privateKey = deriveAgentPrivateKey(secret, agentId, generation);
+  } else if (process.env.AGENT_PRIVATE_KEY) {
+    privateKey = process.env.AGENT_PRIVATE_KEY;
+  } else {
+    throw new Error('Neither AGENT_KEY_SECRET nor AGENT_PRIVATE_KEY is configured');
+  }
+
+  const signer = createProofSigner(privateKey);
+  if (current && current.keyId !== signer.keyId) {
+    throw new Error(`Configured key ${signer.keyId} is not the registered key ${current.keyId} of agent ${agentId}`);
+  }
+  if (!current) {
+    await registerAgentKey(agentId, signer, generation, (await firstProofAt(agentId)) ?? new Date());
+  }
+
+  return privateKey;
+}
+
+/**
+ * Derives the key that succeeds an agent's current one. Requires AGENT_KEY_SECRET,
+ * as the shared AGENT_PRIVATE_KEY cannot be rotated per agent.
+ */
+export async function nextAgentSigner(agentId: string): Promise<{ signer: ProofSigner; generation: number }> {
+  const secret = process.env.AGENT_KEY_SECRET;
+  if (!secret) {
+    throw new Error('Key rotation requires AGENT_KEY_SECRET');
+  }
+
+  const current = await getCurrentAgentKey(agentId);
+  const generation = (current?.generation ?? 0) + 1;
+  return { signer: createProofSigner(deriveAgentPrivateKey(secret, agentId, generation)), generation };
+}
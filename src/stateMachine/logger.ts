@@ -2,31 +2,14 @@
  * Evolunary State Machine Logger
  * 
  * Secure, structured logging for agent state transitions with cryptographic verification.
+ * Every transition becomes a structured record fanned out to pluggable sinks.
  * @module evolunary/logger
  */
 
-import { Proof } from "./sm";
-
-/**
- * Generates a branded Evolunary session header.
- * Displays runtime metadata in a clean, visual format.
- * 
- * @param status - Agent status: "ACTIVE" | "OFFLINE"
- * @param date - Timestamp of log generation
- * @param sessionId - Current session ID
- * @returns Formatted header string
- */
-function logHeader(status: string, date: string, sessionId: string): string {
-  return `
-  ┌────────────────────────────────────────────┐
-  │              EVOLUNARY LOGGER              │
-  ├────────────────────────────────────────────┤
-  │ Status: ${status}                          │
-  │ Time:   ${date}                            │
-  │ Session: ${sessionId}                      │
-  └────────────────────────────────────────────┘
-`;
-}
+import { Proof } from "./proof";
+import { LogLevel } from "../utils/logger";
+import { LogSink, RingBufferSink, StdoutSink, TransitionLogRecord, acceptsLevel, formatRecord } from "./sinks";
+import { DWELL_TIMEOUT_ACTION } from "./watchdog";
 
 /**
  * Interface for Evolunary transition loggers.
@@ -43,26 +26,44 @@ interface StateLogger<State extends string> {
   ): void;
 }
 
+/**
+ * Options for StateMachineLogger.
+ */
+export interface StateMachineLoggerOptions {
+  sinks?: LogSink[];     // Defaults to readable stdout plus an in-memory ring buffer
+}
+
+/**
+ * Level of a transition record: failures and watchdog timeouts are warnings, the rest is info.
+ */
+export function transitionLevel(action: string): LogLevel {
+  return action.endsWith('_FAILED') || action === DWELL_TIMEOUT_ACTION ? LogLevel.WARN : LogLevel.INFO;
+}
+
 /**
  * Evolunary implementation of StateLogger
- * Tracks state transitions with readable logs and signature verification
+ * Builds a structured record per transition and hands it to every sink whose level admits it.
+ * A failing sink is reported but never fails the transition.
  */
 export class StateMachineLogger<State extends string> implements StateLogger<State> {
-  private logs: string[] = [];
+  private sinks: LogSink[];
+  private pending: Set<Promise<void>> = new Set();
+
+  constructor(options: StateMachineLoggerOptions = {}) {
+    this.sinks = options.sinks ?? [new StdoutSink(), new RingBufferSink()];
+  }
 
   /**
-   * Shortens cryptographic signature for log readability.
-   * Displays head + tail with optional length.
+   * Adds a sink; it receives transitions logged from now on.
    */
-  formatSignature(signature: string): string {
-    const start = signature.slice(0, 8);
-    const end = signature.slice(-8);
-    const formatted = `${start}...${end}`;
-    return `${formatted} (${signature.length})`;
+  addSink(sink: LogSink): this {
+    this.sinks.push(sink);
+    return this;
   }
 
   /**
    * Logs a state change with timestamp and proof metadata.
+   * Includes the full active configuration for nested or parallel machines.
    * 
    * @param agentId - Unique identifier for the agent
    * @param sessionId - Current session scope
@@ -70,6 +71,7 @@ export class StateMachineLogger<State extends string> implements StateLogger<Sta
    * @param to - Next state
    * @param action - Action that triggered the change
    * @param proof - Verifiable cryptographic proof
+   * @returns The record handed to the sinks
    */
   logTransition(
     agentId: string,
@@ -78,20 +80,68 @@ export class StateMachineLogger<State extends string> implements StateLogger<Sta
     to: State,
     action: string,
     proof: Proof
-  ): string {
-    const timestamp = new Date().toISOString();
-    const log = `[${timestamp}] ${agentId} ${sessionId} ${from} -> ${to}: ${action}; sig(${this.formatSignature(proof.signature)})`;
-    console.log(log);
-    this.logs.push(log);
-    return log;
+  ): TransitionLogRecord {
+    const record: TransitionLogRecord = {
+      timestamp: new Date().toISOString(),
+      level: transitionLevel(action),
+      agentId,
+      sessionId,
+      from,
+      to,
+      action,
+      stateHash: proof.stateHash,
+      merkleRoot: proof.merkleRoot,
+      signature: proof.signature,
+      algorithm: proof.algorithm,
+      keyId: proof.keyId,
+      configuration: proof.configuration,
+      contentHash: proof.contentHash
+    };
+
+    this.sinks.filter(sink => acceptsLevel(sink, record.level)).forEach(sink => {
+      try {
+        const written = sink.write(record);
+        if (written) {
+          const tracked: Promise<void> = written
+            .catch(error => console.error(`[StateMachineLogger] ${sink.constructor.name} failed:`, error))
+            .finally(() => this.pending.delete(tracked));
+          this.pending.add(tracked);
+        }
+      } catch (error) {
+        console.error(`[StateMachineLogger] ${sink.constructor.name} failed:`, error);
+      }
+    });
+
+    return record;
   }
 
   /**
-   * Outputs a full log trace for the current session.
-   * Includes branded header and all log entries.
+   * Records held by the first ring buffer sink, optionally limited to one session.
+   */
+  getRecords(sessionId?: string): TransitionLogRecord[] {
+    const buffer = this.sinks.find((sink): sink is RingBufferSink => sink instanceof RingBufferSink);
+    return buffer ? buffer.records(sessionId) : [];
+  }
+
+  /**
+   * Outputs the buffered log trace of a session, one readable line per transition.
    */
   getLogs(sessionId: string): string {
-    const header = logHeader("ACTIVE", new Date().toISOString(), sessionId);
-    return header + this.logs.join("\n");
+    return this.getRecords(sessionId).map(formatRecord).join("\n");
+  }
+
+  /**
+   * Waits until every asynchronous sink write issued so far has settled.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pending));
+  }
+
+  /**
+   * Flushes pending writes and closes every sink.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    await Promise.all(this.sinks.map(sink => sink.close?.()));
   }
 }
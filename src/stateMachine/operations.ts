@@ -0,0 +1,99 @@
+/**
+ * Evolunary Machine Operations
+ *
+ * Serializes multi-transition operations on a state machine, such as a chat reply or an
+ * evolution cycle, so two of them never interleave their transitions. An operation that
+ * finds another one running either waits its turn, fails fast, or preempts it.
+ * @module evolunary/operations
+ */
+
+import { Mutex } from 'async-mutex';
+
+/**
+ * What an operation does when another one holds the machine:
+ * - queue: wait until every earlier operation has finished
+ * - reject: fail immediately with TransitionBusyError
+ * - preempt: stop the running operation at its next transition, then run
+ */
+export type OverlapPolicy = 'queue' | 'reject' | 'preempt';
+
+export const OVERLAP_POLICIES: OverlapPolicy[] = ['queue', 'reject', 'preempt'];
+
+/**
+ * An operation holding the machine.
+ */
+export interface RunningOperation {
+  name: string;
+  startedAt: number;
+  preemptedBy: string | null;   // Operation that asked this one to stop, if any
+}
+
+/**
+ * Raised when an operation with the reject policy finds the machine busy.
+ */
+export class TransitionBusyError extends Error {
+  operation: string;
+  running: string;
+
+  constructor(operation: string, running: string) {
+    super(`Cannot start ${operation} while ${running} is running`);
+    this.name = 'TransitionBusyError';
+    this.operation = operation;
+    this.running = running;
+  }
+}
+
+/**
+ * Raised inside a preempted operation at its next transition.
+ */
+export class OperationPreemptedError extends Error {
+  operation: string;
+  preemptedBy: string;
+
+  constructor(operation: string, preemptedBy: string) {
+    super(`${operation} was preempted by ${preemptedBy}`);
+    this.name = 'OperationPreemptedError';
+    this.operation = operation;
+    this.preemptedBy = preemptedBy;
+  }
+}
+
+/**
+ * Grants the machine to one operation at a time, in request order.
+ */
+export class OperationLock {
+  private mutex = new Mutex();
+  private running: RunningOperation | null = null;
+
+  /**
+   * Waits for the machine according to the policy
+   * @returns The granted operation and a function that hands the machine on
+   */
+  async acquire(name: string, policy: OverlapPolicy): Promise<{ operation: RunningOperation; release: () => void }> {
+    if (policy === 'reject' && this.mutex.isLocked()) {
+      throw new TransitionBusyError(name, this.running?.name ?? 'another operation');
+    }
+    if (policy === 'preempt' && this.running && !this.running.preemptedBy) {
+      this.running.preemptedBy = name;
+    }
+
+    const unlock = await this.mutex.acquire();
+    const operation: RunningOperation = { name, startedAt: Date.now(), preemptedBy: null };
+    this.running = operation;
+
+    return {
+      operation,
+      release: () => {
+        this.running = null;
+        unlock();
+      }
+    };
+  }
+
+  /**
+   * Returns the operation holding the machine, if any
+   */
+  current(): RunningOperation | null {
+    return this.running;
+  }
+}
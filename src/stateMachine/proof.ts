@@ -0,0 +1,66 @@
+/**
+ * Evolunary Transition Proofs
+ *
+ * Shared proof schema and the canonical transition hash used by every state machine.
+ * @module evolunary/proof
+ */
+
+import { createHash } from 'crypto';
+import { canonicalize } from '../utils/canonical';
+import { StateConfiguration } from './chart';
+import { SignatureAlgorithm } from './signer';
+
+/**
+ * Verifiable proof of a state change, using cryptographic signatures and Merkle roots.
+ * Carries every input of the state hash that is not already stored beside it
+ * (from, to, action and params live on the execution_logs row).
+ */
+export interface Proof {
+  stateHash: string;
+  prevHash: string;
+  merkleRoot: string;
+  merkleProof: string[];
+  signature: string;
+  algorithm?: SignatureAlgorithm;  // Scheme of the signature; RSA-SHA256 when absent
+  keyId?: string;      // Key that produced the signature
+  timestamp: number;   // Transition time (ms since epoch) that was hashed
+  agentId: string;     // Agent that was hashed
+  sessionId: string;   // Session that was hashed
+  configuration?: StateConfiguration;  // Active path of every region after the transition, if recorded
+  contentHash?: string;                // Content the transition committed to, e.g. a persona version it created or selected
+}
+
+/**
+ * The exact record that is canonicalized and hashed into a proof's stateHash.
+ */
+export interface TransitionRecord {
+  agentId: string;
+  sessionId: string;
+  timestamp: number;
+  from: string;
+  to: string;
+  action: string;
+  params: any;
+  configuration?: StateConfiguration;
+  contentHash?: string;
+}
+
+/**
+ * Computes the SHA-256 state hash of a transition over its canonical encoding.
+ * Anyone holding a proof and its execution_logs row can recompute it byte for byte.
+ * The configuration and content hash are only encoded when present, so proofs without them hash as before.
+ */
+export function hashTransition(record: TransitionRecord): string {
+  const encoded = canonicalize({
+    agentId: record.agentId,
+    sessionId: record.sessionId,
+    timestamp: record.timestamp,
+    from: record.from,
+    to: record.to,
+    action: record.action,
+    params: record.params ?? null,
+    configuration: record.configuration,
+    contentHash: record.contentHash
+  });
+  return createHash('sha256').update(encoded, 'utf8').digest('hex');
+}
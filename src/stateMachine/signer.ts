@@ -0,0 +1,243 @@
+/**
+ * Evolunary Proof Signers
+ *
+ * Signing backends for transition proofs. Every signer reports the algorithm and key id
+ * it signs with, so a stored proof names the key that verifies it.
+ * @module evolunary/signer
+ */
+
+import { createHash, createPrivateKey, createPublicKey, createSign, createVerify, KeyObject, sign, verify } from 'crypto';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+
+/** Signature schemes a proof can be signed with */
+export type SignatureAlgorithm = 'rsa-sha256' | 'ed25519' | 'solana-ed25519';
+
+export const SIGNATURE_ALGORITHMS: SignatureAlgorithm[] = ['rsa-sha256', 'ed25519', 'solana-ed25519'];
+
+/** Algorithm assumed for proofs written before signers recorded one */
+export const LEGACY_SIGNATURE_ALGORITHM: SignatureAlgorithm = 'rsa-sha256';
+
+/**
+ * Public half of a signing key: a KeyObject, a PEM or hex SPKI DER string,
+ * or a base58 address for Solana keys.
+ */
+export type VerificationKey = KeyObject | string;
+
+/**
+ * Signs proof hashes with one key.
+ */
+export interface ProofSigner {
+  readonly algorithm: SignatureAlgorithm;
+  readonly keyId: string;                 // Stable identifier of the verifying key
+  readonly publicKey: VerificationKey;    // Key that verifies this signer's signatures
+  sign(hash: string): string;             // Hex-encoded signature over the hash string
+}
+
+/**
+ * Key id of an SPKI public key: the first 16 bytes of the SHA-256 of its DER encoding.
+ */
+function spkiKeyId(publicKey: KeyObject): string {
+  const der = publicKey.export({ format: 'der', type: 'spki' });
+  return createHash('sha256').update(der).digest('hex').slice(0, 32);
+}
+
+/**
+ * RSA PKCS#1 v1.5 signatures over SHA-256, from a PKCS#8 key.
+ */
+export class RsaSigner implements ProofSigner {
+  readonly algorithm = 'rsa-sha256' as const;
+  readonly keyId: string;
+  readonly publicKey: KeyObject;
+  private privateKey: KeyObject;
+
+  constructor(privateKey: KeyObject) {
+    if (privateKey.asymmetricKeyType !== 'rsa') {
+      throw new Error(`Expected an RSA private key, got ${privateKey.asymmetricKeyType}`);
+    }
+    this.privateKey = privateKey;
+    this.publicKey = createPublicKey(privateKey);
+    this.keyId = spkiKeyId(this.publicKey);
+  }
+
+  sign(hash: string): string {
+    const signer = createSign('SHA256');
+    signer.update(hash);
+    return signer.sign(this.privateKey, 'hex');
+  }
+}
+
+/**
+ * Ed25519 signatures from a PKCS#8 key held by node's crypto module.
+ */
+export class Ed25519Signer implements ProofSigner {
+  readonly algorithm = 'ed25519' as const;
+  readonly keyId: string;
+  readonly publicKey: KeyObject;
+  private privateKey: KeyObject;
+
+  constructor(privateKey: KeyObject) {
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Expected an Ed25519 private key, got ${privateKey.asymmetricKeyType}`);
+    }
+    this.privateKey = privateKey;
+    this.publicKey = createPublicKey(privateKey);
+    this.keyId = spkiKeyId(this.publicKey);
+  }
+
+  sign(hash: string): string {
+    return sign(null, Buffer.from(hash), this.privateKey).toString('hex');
+  }
+}
+
+/**
+ * Ed25519 signatures from a Solana keypair, so proofs verify against the wallet address.
+ * The key id and public key are the base58 address.
+ */
+export class SolanaSigner implements ProofSigner {
+  readonly algorithm = 'solana-ed25519' as const;
+  readonly keyId: string;
+  readonly publicKey: string;
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+    this.publicKey = keypair.publicKey.toBase58();
+    this.keyId = this.publicKey;
+  }
+
+  sign(hash: string): string {
+    return Buffer.from(nacl.sign.detached(Buffer.from(hash), this.keypair.secretKey)).toString('hex');
+  }
+}
+
+/**
+ * Reads a Solana keypair given as a solana-keygen JSON byte array or as 64 hex-encoded bytes.
+ */
+export function loadSolanaKeypair(secretKey: string): Keypair {
+  const key = secretKey.trim();
+  if (key.startsWith('[')) {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(key)));
+  }
+  if (/^[0-9a-f]+$/i.test(key) && key.length === nacl.sign.secretKeyLength * 2) {
+    return Keypair.fromSecretKey(Buffer.from(key, 'hex'));
+  }
+  throw new Error('Unsupported Solana keypair format; expected a JSON byte array or 64 hex-encoded bytes');
+}
+
+/**
+ * Creates the signer matching a private key's format:
+ * - hex PKCS#8 DER holding an RSA or Ed25519 key
+ * - a Solana keypair, either as a solana-keygen JSON byte array or as 64 hex-encoded bytes
+ */
+export function createProofSigner(privateKey: string): ProofSigner {
+  const key = privateKey.trim();
+
+  if (key.startsWith('[')) {
+    return new SolanaSigner(loadSolanaKeypair(key));
+  }
+
+  if (!/^([0-9a-f]{2})+$/i.test(key)) {
+    throw new Error('Unsupported private key format; expected hex PKCS#8 DER or a Solana keypair');
+  }
+
+  let keyObject: KeyObject;
+  try {
+    keyObject = createPrivateKey({ key: Buffer.from(key, 'hex'), format: 'der', type: 'pkcs8' });
+  } catch (error) {
+    if (key.length === nacl.sign.secretKeyLength * 2) {
+      return new SolanaSigner(loadSolanaKeypair(key));
+    }
+    throw error;
+  }
+
+  switch (keyObject.asymmetricKeyType) {
+    case 'rsa':
+      return new RsaSigner(keyObject);
+    case 'ed25519':
+      return new Ed25519Signer(keyObject);
+    default:
+      throw new Error(`Unsupported private key type ${keyObject.asymmetricKeyType}`);
+  }
+}
+
+/**
+ * Reads a verification key given as a KeyObject, a PEM string or hex SPKI DER.
+ */
+function toPublicKeyObject(publicKey: VerificationKey): KeyObject {
+  if (typeof publicKey !== 'string') return publicKey;
+  if (publicKey.includes('-----BEGIN')) return createPublicKey(publicKey);
+  return createPublicKey({ key: Buffer.from(publicKey, 'hex'), format: 'der', type: 'spki' });
+}
+
+/**
+ * Raw 32-byte Ed25519 public key from a base58 address or an Ed25519 KeyObject.
+ */
+function toSolanaPublicKey(publicKey: VerificationKey): Uint8Array {
+  if (typeof publicKey === 'string' && !publicKey.includes('-----BEGIN')) {
+    return new PublicKey(publicKey).toBytes();
+  }
+  const jwk = toPublicKeyObject(publicKey).export({ format: 'jwk' });
+  return Buffer.from(jwk.x as string, 'base64url');
+}
+
+/**
+ * Derives the key id a signer using this public key would record.
+ */
+export function keyIdOf(publicKey: VerificationKey, algorithm: SignatureAlgorithm): string {
+  return algorithm === 'solana-ed25519'
+    ? new PublicKey(toSolanaPublicKey(publicKey)).toBase58()
+    : spkiKeyId(toPublicKeyObject(publicKey));
+}
+
+/**
+ * Verifies a hex signature over a hash with the given algorithm.
+ * Malformed keys or signatures count as a failed verification.
+ */
+export function verifySignature(
+  algorithm: SignatureAlgorithm,
+  hash: string,
+  signature: string,
+  publicKey: VerificationKey
+): boolean {
+  try {
+    const signatureBytes = Buffer.from(signature, 'hex');
+    switch (algorithm) {
+      case 'rsa-sha256': {
+        const verifier = createVerify('SHA256');
+        verifier.update(hash);
+        return verifier.verify(toPublicKeyObject(publicKey), signatureBytes);
+      }
+      case 'ed25519':
+        return verify(null, Buffer.from(hash), toPublicKeyObject(publicKey), signatureBytes);
+      case 'solana-ed25519':
+        return nacl.sign.detached.verify(Buffer.from(hash), signatureBytes, toSolanaPublicKey(publicKey));
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies a proof's signature, picking the algorithm recorded on the proof.
+ * Proofs that name a key id must have been signed by exactly this key.
+ */
+export function verifyProofSignature(
+  proof: { stateHash: string; signature: string; algorithm?: SignatureAlgorithm; keyId?: string },
+  publicKey: VerificationKey
+): boolean {
+  const algorithm = proof.algorithm ?? LEGACY_SIGNATURE_ALGORITHM;
+  if (!SIGNATURE_ALGORITHMS.includes(algorithm)) return false;
+
+  if (proof.keyId !== undefined) {
+    try {
+      if (keyIdOf(publicKey, algorithm) !== proof.keyId) return false;
+    } catch {
+      return false;
+    }
+  }
+
+  return verifySignature(algorithm, proof.stateHash, proof.signature, publicKey);
+}
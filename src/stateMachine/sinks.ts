@@ -0,0 +1,219 @@
+/**
+ * Evolunary Transition Log Sinks
+ *
+ * Destinations for structured transition records: stdout, a JSON Lines file with rotation,
+ * Postgres and an in-memory ring buffer. Each sink filters records by its own minimum level.
+ * @module evolunary/sinks
+ */
+
+import { appendFile, rename, rm, stat } from 'node:fs/promises';
+import { LogLevel } from '../utils/logger';
+import sql from '../utils/sql';
+
+/** Severity order used for per-sink filtering */
+const LEVEL_RANK: Record<LogLevel, number> = {
+  [LogLevel.DEBUG]: 0,
+  [LogLevel.INFO]: 1,
+  [LogLevel.WARN]: 2,
+  [LogLevel.ERROR]: 3
+};
+
+/**
+ * Structured record of one state transition.
+ */
+export interface TransitionLogRecord {
+  timestamp: string;             // ISO time the record was logged
+  level: LogLevel;
+  agentId: string;
+  sessionId: string;
+  from: string;
+  to: string;
+  action: string;
+  stateHash: string;
+  merkleRoot: string;
+  signature: string;
+  algorithm?: string;
+  keyId?: string;
+  configuration?: Record<string, string[]>;
+  contentHash?: string;
+}
+
+/**
+ * Destination for transition records.
+ */
+export interface LogSink {
+  readonly level: LogLevel;      // Records below this level are not written
+  write(record: TransitionLogRecord): void | Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Whether a record is severe enough for a sink.
+ */
+export function acceptsLevel(sink: LogSink, level: LogLevel): boolean {
+  return LEVEL_RANK[level] >= LEVEL_RANK[sink.level];
+}
+
+/**
+ * Shortens a signature to its head and tail, followed by its length.
+ */
+export function formatSignature(signature: string): string {
+  return `${signature.slice(0, 8)}...${signature.slice(-8)} (${signature.length})`;
+}
+
+/**
+ * Renders the active configuration as `[region: OUTER/INNER | ...]`.
+ * Flat machines with a single active state render nothing.
+ */
+export function formatConfiguration(configuration?: Record<string, string[]>): string {
+  const regions = Object.entries(configuration || {});
+  if (regions.length < 2 && regions.every(([, path]) => path.length < 2)) {
+    return '';
+  }
+  return ` [${regions.map(([region, path]) => `${region}: ${path.join('/')}`).join(' | ')}]`;
+}
+
+/**
+ * Renders a record as a single human-readable line.
+ */
+export function formatRecord(record: TransitionLogRecord): string {
+  return `[${record.timestamp}] ${record.agentId} ${record.sessionId} ${record.from} -> ${record.to}: ` +
+    `${record.action}${formatConfiguration(record.configuration)}; sig(${formatSignature(record.signature)})`;
+}
+
+/**
+ * Writes records to stdout, as JSON Lines or as readable text.
+ */
+export class StdoutSink implements LogSink {
+  constructor(
+    readonly level: LogLevel = LogLevel.INFO,
+    private format: 'json' | 'text' = 'text'
+  ) {}
+
+  write(record: TransitionLogRecord): void {
+    process.stdout.write(`${this.format === 'json' ? JSON.stringify(record) : formatRecord(record)}\n`);
+  }
+}
+
+/**
+ * Keeps the most recent records in memory, dropping the oldest once full.
+ */
+export class RingBufferSink implements LogSink {
+  private buffer: TransitionLogRecord[] = [];
+
+  constructor(
+    private capacity: number = 1000,
+    readonly level: LogLevel = LogLevel.DEBUG
+  ) {
+    if (capacity < 1) {
+      throw new Error('Ring buffer capacity must be at least 1');
+    }
+  }
+
+  write(record: TransitionLogRecord): void {
+    this.buffer.push(record);
+    if (this.buffer.length > this.capacity) {
+      this.buffer.shift();
+    }
+  }
+
+  /**
+   * Buffered records, oldest first, optionally limited to one session
+   */
+  records(sessionId?: string): TransitionLogRecord[] {
+    return sessionId === undefined
+      ? [...this.buffer]
+      : this.buffer.filter(record => record.sessionId === sessionId);
+  }
+
+  clear(): void {
+    this.buffer = [];
+  }
+}
+
+/**
+ * Options for the JSON Lines file sink.
+ */
+export interface JsonlFileSinkOptions {
+  path: string;
+  level?: LogLevel;
+  maxBytes?: number;     // Rotate once the file would grow past this size (default 10 MiB)
+  maxFiles?: number;     // Rotated files kept as path.1 ... path.N (default 5)
+}
+
+/**
+ * Appends records to a JSON Lines file and rotates it by size.
+ * Writes are serialized, so records land in the order they were logged.
+ */
+export class JsonlFileSink implements LogSink {
+  readonly level: LogLevel;
+  private path: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size: number | null = null;       // Current file size, read lazily
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: JsonlFileSinkOptions) {
+    this.path = options.path;
+    this.level = options.level ?? LogLevel.DEBUG;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  write(record: TransitionLogRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    const write = this.queue.then(() => this.append(line));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+
+  private async append(line: string): Promise<void> {
+    const bytes = Buffer.byteLength(line);
+    if (this.size === null) {
+      this.size = await stat(this.path).then(stats => stats.size, () => 0);
+    }
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+    }
+
+    await appendFile(this.path, line, 'utf8');
+    this.size += bytes;
+  }
+
+  /**
+   * Moves every path.i to path.i+1 and the live file to path.1, dropping the oldest file
+   */
+  private async rotate(): Promise<void> {
+    if (this.maxFiles < 1) {
+      await rm(this.path, { force: true });
+    } else {
+      await rm(`${this.path}.${this.maxFiles}`, { force: true });
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        await rename(`${this.path}.${i}`, `${this.path}.${i + 1}`).catch(() => undefined);
+      }
+      await rename(this.path, `${this.path}.1`);
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Stores records in the `transition_logs` table.
+ */
+export class PostgresSink implements LogSink {
+  constructor(readonly level: LogLevel = LogLevel.INFO) {}
+
+  async write(record: TransitionLogRecord): Promise<void> {
+    await sql`
+      INSERT INTO transition_logs (level, agent_id, session_id, from_state, to_state, action, record, logged_at)
+      VALUES (
+        ${record.level}, ${record.agentId}, ${record.sessionId}, ${record.from}, ${record.to},
+        ${record.action}, ${sql.json({ ...record })}, ${record.timestamp}
+      )
+    `;
+  }
+}
@@ -1,15 +1,24 @@
 /**
  * Evolunary Agent State Machine
  * 
- * Core logic for managing agent state transitions, Merkle-based verification,
- * cryptographic signatures, and persistent logging for behavioral trust.
+ * The agent lifecycle graph, with the typed events that drive it, built on the
+ * generic event-driven StateMachine core that also runs every sub-agent.
+ * Proofs, Merkle verification, signing and persistence all come from that core.
  */
 
-import { createHash, createPrivateKey, createSign, createVerify } from 'crypto';
-import { MerkleTree } from 'merkletreejs';
 import { StateMachineLogger } from './logger';
-import SHA256 from 'crypto-js/sha256';
-import sql from '../utils/sql';
+import { Proof } from './proof';
+import { ProofSigner } from './signer';
+import { EventTable } from './events';
+import {
+  StateMachine,
+  StateHandler as MachineStateHandler,
+  StateNode as MachineStateNode,
+  StateTransition as MachineStateTransition
+} from '../agent/sm';
+
+export type { Proof };
+export type { StateTransitionAction } from '../agent/sm';
 
 /**
  * AgentState defines the operational phases in an Evolunary agent’s lifecycle.
@@ -36,41 +45,49 @@ export const AgentStates: AgentState[] = [
 /**
  * Describes a transition from one state to another, along with context.
  */
-export interface StateTransition {
-  from: AgentState;
-  to: AgentState;
-  action: string;
-  params: any;
-}
+export type StateTransition = MachineStateTransition<AgentState>;
 
 /**
- * Defines a triggerable state transition operation.
+ * Defines hooks and logic handlers for a specific state.
  */
-export interface StateTransitionAction {
-  action: string;
-  params: any;
-}
+export type StateHandler = MachineStateHandler<AgentState>;
 
 /**
- * Verifiable proof of a state change, using cryptographic signatures and Merkle roots.
+ * StateNode represents a graph node in the agent’s state machine.
  */
-export interface Proof {
-  stateHash: string;
-  prevHash: string;
-  merkleRoot: string;
-  merkleProof: string[];
-  signature: string;
-  timestamp: number;
-}
+export type StateNode = MachineStateNode<AgentState>;
 
 /**
- * Defines hooks and logic handlers for a specific state.
+ * Events accepted by the agent machine, with the payload each one carries.
  */
-export interface StateHandler {
-  entry?: (data?: any) => Promise<StateTransition>;
-  exit?: (data?: any) => Promise<StateTransition>;
-  actions?: Record<string, (data: any) => Promise<StateTransition>>;
-}
+export type AgentEvents = {
+  START: undefined;                                  // IDLE -> INIT
+  GOAL_RECEIVED: { goal: string };                   // INIT -> GOAL_PARSE
+  GOAL_PARSED: { goal: string; objectives: string[] };  // GOAL_PARSE -> PLANNING
+  REPLAN: { reason: string };                        // PLANNING -> PLANNING
+  PLAN_READY: { steps: string[] };                   // PLANNING -> EXECUTING
+  STEP_COMPLETED: { step: number; result?: any };    // EXECUTING -> EXECUTING
+  EXECUTION_COMPLETE: { results?: any[] } | undefined;  // EXECUTING -> VALIDATING
+  VALIDATION_PASSED: undefined;                      // VALIDATING -> COMPLETED
+  VALIDATION_FAILED: { reason: string };             // VALIDATING -> EXECUTING
+  REPORT: { summary: string };                       // EXECUTING, VALIDATING, REPORTING -> REPORTING
+  REPORT_SENT: undefined;                            // REPORTING -> COMPLETED
+  FAIL: { error: string };                           // Any working state -> ERROR
+  RESET: undefined;                                  // Any state but IDLE -> IDLE
+  TERMINATE: undefined;                              // Any state -> TERMINATED
+};
+
+/**
+ * Context each agent state holds while active: the payload of the event that entered it.
+ */
+export type AgentContexts = {
+  GOAL_PARSE: AgentEvents['GOAL_RECEIVED'];
+  PLANNING: AgentEvents['GOAL_PARSED'] | AgentEvents['REPLAN'];
+  EXECUTING: AgentEvents['PLAN_READY'] | AgentEvents['STEP_COMPLETED'] | AgentEvents['VALIDATION_FAILED'];
+  VALIDATING: AgentEvents['EXECUTION_COMPLETE'];
+  REPORTING: AgentEvents['REPORT'];
+  ERROR: AgentEvents['FAIL'];
+};
 
 /**
  * Defines valid next states for each state in the Evolunary graph.
@@ -88,188 +105,39 @@ const validTransitions: Record<AgentState, AgentState[]> = {
   TERMINATED: []
 };
 
-/**
- * Foundation class for Evolunary agents.
- * Tracks state history, constructs Merkle trees, and generates verifiable proofs.
- */
-class BaseState {
-  protected stateHistory: string[] = [];
-  protected merkleTree: MerkleTree;
-  protected id: string;
-  protected sessionId: string;
-  protected privateKey: string;
-
-  constructor(id: string, sessionId: string, privateKey: string) {
-    this.id = id;
-    this.sessionId = sessionId;
-    this.privateKey = privateKey;
-    this.merkleTree = new MerkleTree([], SHA256);
-  }
-
-  protected hashState(state: StateTransition): string {
-    const encoded = JSON.stringify({
-      timestamp: Date.now(),
-      from: state.from,
-      to: state.to,
-      action: state.action,
-      params: state.params
-    });
-    return SHA256(encoded).toString();
-  }
-
-  protected generateProof(state: StateTransition): Proof {
-    const stateHash = this.hashState(state);
-    this.stateHistory.push(stateHash);
-
-    const leaves = [...this.stateHistory];
-    this.merkleTree = new MerkleTree(leaves, SHA256);
-
-    const merkleRoot = this.merkleTree.getHexRoot();
-    const merkleProof = this.merkleTree.getHexProof(stateHash);
-
-    return {
-      stateHash,
-      prevHash: this.stateHistory[this.stateHistory.length - 2] || '',
-      merkleRoot,
-      merkleProof,
-      signature: this.sign(stateHash),
-      timestamp: Date.now()
-    };
-  }
-
-  private sign(hash: string): string {
-    const key = createPrivateKey({
-      key: Buffer.from(this.privateKey, 'hex'),
-      format: 'der',
-      type: 'pkcs8'
-    });
-    const signer = createSign('SHA256');
-    signer.update(hash);
-    return signer.sign(key, 'hex');
-  }
-
-  public verifySignature(hash: string, signature: string, publicKey: string): boolean {
-    const verifier = createVerify('SHA256');
-    verifier.update(hash);
-    return verifier.verify(publicKey, Buffer.from(signature, 'hex'));
-  }
-
-  protected async broadcast(data: {
-    agentId: string;
-    sessionId: string;
-    fromState: string;
-    toState: string;
-    action: string;
-    proof: Proof;
-  }): Promise<void> {
-    await sql`
-      INSERT INTO execution_logs (agent_id, session_id, from_state, to_state, action, proof)
-      VALUES (
-        ${data.agentId},
-        ${data.sessionId},
-        ${data.fromState},
-        ${data.toState},
-        ${data.action},
-        ${sql.json({
-          stateHash: data.proof.stateHash,
-          prevHash: data.proof.prevHash,
-          merkleRoot: data.proof.merkleRoot,
-          merkleProof: data.proof.merkleProof,
-          signature: data.proof.signature,
-          timestamp: data.proof.timestamp
-        })}
-      )
-    `;
-  }
-}
+/** Events every working state accepts */
+const interrupts = { FAIL: 'ERROR', RESET: 'IDLE', TERMINATE: 'TERMINATED' } as const;
 
 /**
- * StateNode represents a graph node in the agent’s state machine.
+ * Maps (state, event) to the next state. Every entry follows an edge of validTransitions.
  */
-export interface StateNode {
-  state: AgentState;
-  transitions: Map<AgentState, StateTransition>;
-}
+const agentEvents: EventTable<AgentState, AgentEvents> = {
+  IDLE: { START: 'INIT', FAIL: 'ERROR', TERMINATE: 'TERMINATED' },
+  INIT: { GOAL_RECEIVED: 'GOAL_PARSE', ...interrupts },
+  GOAL_PARSE: { GOAL_PARSED: 'PLANNING', ...interrupts },
+  PLANNING: { REPLAN: 'PLANNING', PLAN_READY: 'EXECUTING', ...interrupts },
+  EXECUTING: { STEP_COMPLETED: 'EXECUTING', EXECUTION_COMPLETE: 'VALIDATING', REPORT: 'REPORTING', ...interrupts },
+  VALIDATING: { VALIDATION_PASSED: 'COMPLETED', VALIDATION_FAILED: 'EXECUTING', REPORT: 'REPORTING', ...interrupts },
+  REPORTING: { REPORT: 'REPORTING', REPORT_SENT: 'COMPLETED', ...interrupts },
+  COMPLETED: { RESET: 'IDLE', TERMINATE: 'TERMINATED' },
+  ERROR: { RESET: 'IDLE', TERMINATE: 'TERMINATED' },
+  TERMINATED: {}
+};
 
 /**
  * Evolunary Agent State Machine
- * Orchestrates valid state transitions, cryptographic verification, and persistent logging.
+ * Drives the agent lifecycle with typed events; validation, proofs and logging come from the core.
  */
-export class AgentStateMachine extends BaseState {
-  private currentState: AgentState = 'INIT';
-  private stateNodes: Map<AgentState, StateNode> = new Map();
-  private logger: StateMachineLogger<AgentState>;
-
-  constructor(id: string, sessionId: string, privateKey: string, logger?: StateMachineLogger<AgentState>) {
-    super(id, sessionId, privateKey);
-    this.logger = logger || new StateMachineLogger<AgentState>();
-    this.initializeStates();
-  }
-
-  private initializeStates(): void {
-    AgentStates.forEach(state => {
-      this.stateNodes.set(state, { state, transitions: new Map() });
-    });
-
-    Object.entries(validTransitions).forEach(([from, toList]) => {
-      const node = this.stateNodes.get(from as AgentState);
-      if (!node) return;
-      toList.forEach(to => {
-        node.transitions.set(to, {
-          from: from as AgentState,
-          to,
-          action: '',
-          params: null
-        });
-      });
-    });
+export class AgentStateMachine extends StateMachine<AgentState, AgentEvents, AgentContexts> {
+  constructor(id: string, sessionId: string, privateKey: string | ProofSigner, logger?: StateMachineLogger<AgentState>) {
+    super(id, sessionId, privateKey, AgentStates, validTransitions, 'INIT', logger, { events: agentEvents });
   }
 
   /**
-   * Executes a valid state transition.
-   * Verifies legality, logs proof, and persists event to storage.
+   * Executes a valid state transition by target state.
+   * Prefer send() with an event; this remains for callers that name the target directly.
    */
   async transitionTo(state: AgentState, action: string, data?: any): Promise<Proof> {
-    const currentNode = this.stateNodes.get(this.currentState);
-    if (!currentNode || !currentNode.transitions.has(state)) {
-      throw new Error(`Invalid transition: ${this.currentState} → ${state}`);
-    }
-
-    const proof = this.generateProof({
-      from: this.currentState,
-      to: state,
-      action,
-      params: data
-    });
-
-    this.logger.logTransition(this.id, this.sessionId, this.currentState, state, action, proof);
-
-    await this.broadcast({
-      agentId: this.id,
-      sessionId: this.sessionId,
-      fromState: this.currentState,
-      toState: state,
-      action,
-      proof
-    });
-
-    this.currentState = state;
-    return proof;
-  }
-
-  /** Returns next valid states for current context */
-  getAvailableTransitions(): AgentState[] {
-    const node = this.stateNodes.get(this.currentState);
-    return node ? Array.from(node.transitions.keys()) : [];
-  }
-
-  /** Returns the current operational state */
-  getCurrentState(): AgentState {
-    return this.currentState;
-  }
-
-  /** Returns formatted transition history */
-  getLogs(): string {
-    return this.logger.getLogs(this.sessionId);
+    return this.to(state, action, data);
   }
 }
@@ -0,0 +1,92 @@
+/**
+ * Evolunary State Watchdog
+ *
+ * Per-state maximum dwell times. Each timed state gets a timer when it is entered
+ * and loses it when it is left; an expired timer reports the state that overstayed.
+ * @module evolunary/watchdog
+ */
+
+/** Action recorded on transitions fired by the watchdog */
+export const DWELL_TIMEOUT_ACTION = 'DWELL_TIMEOUT';
+
+/**
+ * Maximum dwell time of a state and where to go when it is exceeded.
+ */
+export interface DwellTimeout<State extends string> {
+  after: number;       // Maximum time in ms the state may stay active
+  fallback?: State;    // Target on expiry; defaults to the machine's error state
+}
+
+/**
+ * Dwell limits keyed by state. A bare number is the limit in ms with the default target.
+ */
+export type DwellTimeouts<State extends string> = Partial<Record<State, number | DwellTimeout<State>>>;
+
+/**
+ * Describes a state that stayed active past its limit.
+ */
+export interface DwellExpiry<State extends string> {
+  state: State;
+  after: number;
+  fallback?: State;
+  enteredAt: number;   // When the state was entered (ms since epoch)
+}
+
+/**
+ * Normalizes a declared limit to its object form.
+ */
+export function toDwellTimeout<State extends string>(timeout: number | DwellTimeout<State>): DwellTimeout<State> {
+  return typeof timeout === 'number' ? { after: timeout } : timeout;
+}
+
+export class Watchdog<State extends string> {
+  private timeouts: Map<State, DwellTimeout<State>>;
+  private timers: Map<State, NodeJS.Timeout> = new Map();
+  private onExpire: (expiry: DwellExpiry<State>) => void;
+
+  constructor(timeouts: DwellTimeouts<State>, onExpire: (expiry: DwellExpiry<State>) => void) {
+    this.timeouts = new Map(
+      (Object.entries(timeouts) as [State, number | DwellTimeout<State>][])
+        .map(([state, timeout]) => [state, toDwellTimeout(timeout)])
+    );
+    this.onExpire = onExpire;
+  }
+
+  /**
+   * Starts (or restarts) the timer of a state that has just been entered
+   */
+  arm(state: State): void {
+    const timeout = this.timeouts.get(state);
+    if (!timeout) return;
+
+    this.disarm(state);
+    const enteredAt = Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(state);
+      this.onExpire({ state, after: timeout.after, fallback: timeout.fallback, enteredAt });
+    }, timeout.after);
+
+    // A pending watchdog should never keep the process alive on its own
+    timer.unref?.();
+    this.timers.set(state, timer);
+  }
+
+  /**
+   * Cancels the timer of a state that has been left
+   */
+  disarm(state: State): void {
+    const timer = this.timers.get(state);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(state);
+    }
+  }
+
+  /**
+   * Cancels every pending timer
+   */
+  clear(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
@@ -13,13 +13,41 @@
  */
 
 
-import { StateMachine } from "../sm";
-import { TreeNodeJSON, TreeStateJSON, VersionedTree } from "../tree";
-import { prompt } from "../../utils/llm";
-import { generateKeyPairSync, randomUUID } from "crypto";
+import { EventTable, StateMachine, TransitionListener } from "../sm";
+import { defineMachine } from "../../stateMachine/definition";
+import { DwellTimeouts } from "../../stateMachine/watchdog";
+import { OverlapPolicy, TransitionBusyError } from "../../stateMachine/operations";
+import { nextAgentSigner } from "../../stateMachine/keys";
+import { getContentCommitments } from "../../stateMachine/audit";
+import { Proof } from "../../stateMachine/proof";
+import {
+    BranchOptions,
+    PrunedBranch,
+    RetentionPolicy,
+    TreeNodeJSON,
+    TreeStateJSON,
+    VersionedTree,
+    hashNodeContent
+} from "../tree";
+import { SelectionOptions, SelectionStrategyName, selectionStrategy } from "../selection";
+import { MergeSide, PERSONA_FIELDS, PersonaConflict, diffPersonaFields, mergePersonas } from "../merge";
+import { generateSeed, seedSequence, seededRandom } from "../random";
+import { ModelCall, ModelTranscript } from "../transcript";
+import {
+    Conversation,
+    ConversationConfig,
+    appendConversationExchange,
+    defaultConversationConfig,
+    getConversation,
+    prepareConversationContext
+} from "../conversation";
+import { canonicalize } from "../../utils/canonical";
+import { converse, prompt } from "../../utils/llm";
+import { randomUUID } from "crypto";
 
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
+import postgres from "postgres";
 import sql from "../../utils/sql";
 
 /**
@@ -89,6 +117,205 @@ export const personaTransitions: Record<PersonaState, PersonaState[]> = {
     'ERROR': ['INITIALIZING', 'READY']
 };
 
+/**
+ * Maximum time in ms each working state may stay active before the watchdog moves the persona machine to ERROR
+ */
+export const personaTimeouts: DwellTimeouts<PersonaState> = {
+    'PROCESSING_EXPERIENCE': 120000,
+    'INTEGRATING_CHANGES': 120000,
+    'GENERATING_RESPONSE': 120000,
+    'APPLYING_PERSONALITY': 120000,
+    'EVALUATING_RESPONSE': 120000,
+    'LEARNING': 120000,
+    'PATTERN_RECOGNITION': 120000,
+    'VALUE_INTEGRATION': 120000,
+    'ADAPTING': 120000,
+    'TRAIT_ADJUSTMENT': 120000,
+    'VALUE_RECALIBRATION': 120000,
+    'SAVING': 30000,
+    'LOADING': 30000
+};
+
+/**
+ * Events accepted by the persona machine, with the payload each one carries
+ */
+export type PersonaEvents = {
+    START_INITIALIZATION: undefined;                                      // INITIALIZING -> LOADING
+    PROCESS_LOADED_STATE: undefined;                                      // LOADING -> INITIALIZING
+    INITIALIZATION_COMPLETE: { version: string };                         // INITIALIZING -> READY
+    START_RESPONSE_GENERATION: undefined;                                 // READY -> GENERATING_RESPONSE
+    APPLY_PERSONALITY: undefined;                                         // GENERATING_RESPONSE -> APPLYING_PERSONALITY
+    EVALUATE_RESPONSE: undefined;                                         // APPLYING_PERSONALITY -> EVALUATING_RESPONSE
+    RESPONSE_COMPLETE: undefined;                                         // EVALUATING_RESPONSE -> READY
+    START_LEARNING: undefined;                                            // READY -> LEARNING
+    IDENTIFY_PATTERNS: undefined;                                         // LEARNING -> PATTERN_RECOGNITION
+    INTEGRATE_VALUES: undefined;                                          // PATTERN_RECOGNITION -> VALUE_INTEGRATION
+    LEARNING_COMPLETE: { version: string };                               // VALUE_INTEGRATION -> READY
+    START_ADAPTATION: undefined;                                          // READY -> ADAPTING
+    ADJUST_TRAITS: undefined;                                             // ADAPTING -> TRAIT_ADJUSTMENT
+    RECALIBRATE_VALUES: undefined;                                        // TRAIT_ADJUSTMENT -> VALUE_RECALIBRATION
+    ADAPTATION_COMPLETE: { version: string };                             // VALUE_RECALIBRATION -> READY
+    START_EVOLUTION: undefined;                                           // READY -> PROCESSING_EXPERIENCE
+    PROCESS_EXPERIENCE: undefined;                                        // PROCESSING_EXPERIENCE -> INTEGRATING_CHANGES
+    EVOLUTION_INTEGRATION_COMPLETE: { version: string };                  // INTEGRATING_CHANGES -> READY
+    SAVE_STATE: undefined;                                                // READY -> SAVING
+    EVOLUTION_COMPLETE: { runId: string };                                // SAVING -> READY
+    MERGE_VERSIONS: { ours: string; theirs: string; base: string; version: string }; // READY -> SAVING
+    MERGE_COMPLETE: undefined;                                            // SAVING -> READY
+    RESTORE_ARCHIVE: { archiveId: string; version: string };              // READY -> LOADING
+    PROCESS_RESTORE: undefined;                                           // LOADING -> INITIALIZING
+    RESTORE_COMPLETE: undefined;                                          // INITIALIZING -> READY
+    CHECKOUT_VERSION: { previous: string; version: string };              // READY -> LOADING
+    PROCESS_CHECKOUT: undefined;                                          // LOADING -> INITIALIZING
+    CHECKOUT_COMPLETE: undefined;                                         // INITIALIZING -> READY
+    RESUMED_AFTER_INTERRUPTION: { interruptedState: PersonaState };       // Any working state -> ERROR
+    RECOVERED_FROM_INTERRUPTION: undefined;                               // ERROR -> READY
+};
+
+/**
+ * Context each persona state holds while active: the payload of the event that entered it
+ */
+export type PersonaContexts = {
+    SAVING: PersonaEvents['MERGE_VERSIONS'] | PersonaEvents['SAVE_STATE'];
+    LOADING: PersonaEvents['RESTORE_ARCHIVE'] | PersonaEvents['CHECKOUT_VERSION'] | PersonaEvents['START_INITIALIZATION'];
+    ERROR: PersonaEvents['RESUMED_AFTER_INTERRUPTION'];
+};
+
+const interruption = { RESUMED_AFTER_INTERRUPTION: 'ERROR' } as const;
+
+/**
+ * Maps (state, event) to the next state. Every entry follows an edge of personaTransitions.
+ */
+export const personaEvents: EventTable<PersonaState, PersonaEvents> = {
+    'INITIALIZING': {
+        START_INITIALIZATION: 'LOADING',
+        INITIALIZATION_COMPLETE: 'READY',
+        RESTORE_COMPLETE: 'READY',
+        CHECKOUT_COMPLETE: 'READY'
+    },
+    'READY': {
+        START_RESPONSE_GENERATION: 'GENERATING_RESPONSE',
+        START_LEARNING: 'LEARNING',
+        START_ADAPTATION: 'ADAPTING',
+        START_EVOLUTION: 'PROCESSING_EXPERIENCE',
+        SAVE_STATE: 'SAVING',
+        MERGE_VERSIONS: 'SAVING',
+        RESTORE_ARCHIVE: 'LOADING',
+        CHECKOUT_VERSION: 'LOADING'
+    },
+    'PROCESSING_EXPERIENCE': { PROCESS_EXPERIENCE: 'INTEGRATING_CHANGES', ...interruption },
+    'INTEGRATING_CHANGES': { EVOLUTION_INTEGRATION_COMPLETE: 'READY', ...interruption },
+    'GENERATING_RESPONSE': { APPLY_PERSONALITY: 'APPLYING_PERSONALITY', ...interruption },
+    'APPLYING_PERSONALITY': { EVALUATE_RESPONSE: 'EVALUATING_RESPONSE', ...interruption },
+    'EVALUATING_RESPONSE': { RESPONSE_COMPLETE: 'READY', ...interruption },
+    'LEARNING': { IDENTIFY_PATTERNS: 'PATTERN_RECOGNITION', ...interruption },
+    'PATTERN_RECOGNITION': { INTEGRATE_VALUES: 'VALUE_INTEGRATION', ...interruption },
+    'VALUE_INTEGRATION': { LEARNING_COMPLETE: 'READY', ...interruption },
+    'ADAPTING': { ADJUST_TRAITS: 'TRAIT_ADJUSTMENT', ...interruption },
+    'TRAIT_ADJUSTMENT': { RECALIBRATE_VALUES: 'VALUE_RECALIBRATION', ...interruption },
+    'VALUE_RECALIBRATION': { ADAPTATION_COMPLETE: 'READY', ...interruption },
+    'SAVING': { EVOLUTION_COMPLETE: 'READY', MERGE_COMPLETE: 'READY', ...interruption },
+    'LOADING': {
+        PROCESS_LOADED_STATE: 'INITIALIZING',
+        PROCESS_RESTORE: 'INITIALIZING',
+        PROCESS_CHECKOUT: 'INITIALIZING',
+        ...interruption
+    },
+    'ERROR': { RECOVERED_FROM_INTERRUPTION: 'READY' }
+};
+
+/**
+ * Validated definition of the persona state machine
+ */
+export const personaDefinition = defineMachine<PersonaState>({
+    name: 'persona',
+    initial: 'INITIALIZING',
+    states: personaStates,
+    transitions: personaTransitions,
+    timeouts: personaTimeouts,
+    events: personaEvents
+});
+
+/**
+ * Overlap policy of each persona operation when another one holds the state machine
+ */
+export interface PersonaOverlapPolicies {
+    chat: OverlapPolicy;      // Replying to a chat message
+    evolve: OverlapPolicy;    // Timer-driven evolution cycle
+    ingest: OverlapPolicy;    // Ingesting an external post as an experience
+    merge: OverlapPolicy;     // Merging two persona versions into a new one
+    checkout: OverlapPolicy;  // Switching to an existing persona version
+    restore: OverlapPolicy;   // Restoring an archived branch
+}
+
+/**
+ * An overlapping evolution tick is skipped until the next interval, and every other
+ * operation, chat replies included, waits its turn
+ */
+export const defaultPersonaOverlapPolicies: PersonaOverlapPolicies = {
+    chat: 'queue',
+    evolve: 'reject',
+    ingest: 'queue',
+    merge: 'queue',
+    checkout: 'queue',
+    restore: 'queue'
+};
+
+/**
+ * How the persona picks the version to evolve from and the evolved version to adopt
+ */
+export interface PersonaSelectionConfig {
+    parent: SelectionStrategyName;
+    child: SelectionStrategyName;
+    levels: BranchOptions['levels'];
+    options?: SelectionOptions;
+}
+
+/**
+ * Evolution branches from any earlier version, favouring the ones that scored well,
+ * and adopts the best scored of the new versions
+ */
+export const defaultPersonaSelection: PersonaSelectionConfig = {
+    parent: 'softmax',
+    child: 'greedy',
+    levels: 'all'
+};
+
+/**
+ * Branches kept besides the current lineage when the tree outgrows its capacity
+ */
+export const defaultPersonaRetention: Omit<RetentionPolicy, 'maxNodes'> = {
+    topBranches: 3,
+    recentLevels: 2
+};
+
+/**
+ * Builds the persona tree's retention policy from an agent's learning config
+ * `memoryCapacity` caps the live persona versions, in memory and in `agent_personas`
+ * @returns The policy, or undefined if the agent sets no capacity
+ */
+export function retentionPolicyFor(
+    learningConfig?: { memoryCapacity?: number; retention?: Partial<Omit<RetentionPolicy, 'maxNodes'>> }
+): RetentionPolicy | undefined {
+    if (!learningConfig?.memoryCapacity || learningConfig.memoryCapacity < 1) return undefined;
+    return {
+        ...defaultPersonaRetention,
+        ...learningConfig.retention,
+        maxNodes: learningConfig.memoryCapacity
+    };
+}
+
+/**
+ * Optional behaviour of a persona subagent
+ */
+export interface PersonaSubAgentOptions {
+    policies?: Partial<PersonaOverlapPolicies>;
+    selection?: Partial<PersonaSelectionConfig>;
+    retention?: RetentionPolicy;    // Prunes the tree after every evolution cycle; unlimited if unset
+    seed?: number;                  // Base seed of the evolution cycles' random choices; random if unset
+    historyWindow?: number;         // Chat exchanges sent verbatim before older ones are summarized
+}
+
 /**
  * Full persona record structure for Evolunary agents.
  */
@@ -99,6 +326,20 @@ export interface AgentPersona extends PersonaStateData {
     version: string;     // Version string in format "level@version"
     nodeLevel: number;   // Level in the version tree
     nodeVersion: number; // Version number at current level
+    fitness?: number | null;  // Mean score of the version's responses
+    evaluations?: number;     // Number of scores recorded
+    visits?: number;          // Times the version was evolved from
+    mergedFrom?: string | null;  // Version merged in to produce this one, if it is a merge
+    parentVersion?: string | null;  // Version this one was evolved or merged from; null for the root
+    contentHash?: string | null;    // Hash of the persona data and its parent's hash
+}
+
+/**
+ * A persona as stored in `agent_personas`, with its row timestamps.
+ */
+export interface StoredAgentPersona extends AgentPersona {
+    createdAt: Date;
+    updatedAt: Date;
 }
 
 /**
@@ -118,12 +359,103 @@ export interface PersonaStateData {
     prompt: string;            // Base prompt defining behavior
 }
 
+/**
+ * Reduces any persona-shaped value to exactly the PersonaStateData fields, with missing
+ * lists empty and a missing prompt blank, so equal personas always hash alike.
+ * @param source Persona record, LLM output or stored row
+ * @returns Normalized persona data
+ */
+export function toPersonaStateData(source: Partial<PersonaStateData>): PersonaStateData {
+    const data = {} as PersonaStateData;
+    PERSONA_FIELDS.forEach(field => {
+        if (field === 'prompt') {
+            data.prompt = source.prompt ?? '';
+        } else {
+            (data[field] as string[]) = [...((source[field] as string[]) || [])];
+        }
+    });
+    return data;
+}
+
+/**
+ * Branch options built from a selection config
+ */
+export function personaBranchOptions(selection: PersonaSelectionConfig): BranchOptions {
+    return {
+        parent: selectionStrategy(selection.parent, selection.options),
+        child: selectionStrategy(selection.child, selection.options),
+        levels: selection.levels
+    };
+}
+
+/**
+ * Branches a persona tree with the evolutions the model proposed for the parent.
+ * Live evolution and replay both grow the tree through here, so they draw from its random
+ * source in the same order.
+ * @param evolutionOutput Raw model output holding an `evolutions` array
+ * @param options Branch options naming the parent version
+ * @returns Version of the new current node and the children added
+ */
+export function branchPersonaTree(
+    tree: VersionedTree<PersonaStateData>,
+    evolutionOutput: string,
+    options: BranchOptions
+): { newVersion: string; children: { data: PersonaStateData; version: string }[] } {
+    const evolutionData = JSON.parse(evolutionOutput);
+    let children: { data: PersonaStateData; version: string }[] = [];
+
+    const newVersion = tree.branch((numChildren, childVersions) => {
+        children = evolutionData.evolutions
+            .slice(0, numChildren)
+            .map((evolution: PersonaStateData, index: number) => ({
+                data: toPersonaStateData(evolution),
+                version: childVersions[index]
+            }));
+        return children;
+    }, options);
+
+    return { newVersion, children };
+}
+
+/**
+ * Reads the score from a model's evaluation of a response
+ * @param evaluation Raw evaluation JSON from the model
+ * @returns Score between 0 and 1, or null if the evaluation holds none
+ */
+export function parseEvaluationScore(evaluation: string): number | null {
+    let score: number;
+    try {
+        score = Number(JSON.parse(evaluation).score);
+    } catch {
+        return null;
+    }
+    return Number.isFinite(score) && score >= 0 && score <= 1 ? score : null;
+}
+
+/**
+ * Adds the patterns and values the model identified to a persona
+ */
+export function applyLearning(data: PersonaStateData, patterns: string | null, values: string | null): void {
+    if (patterns !== null) data.patterns.push(patterns);
+    if (values !== null) data.values.push(values);
+}
+
+/**
+ * Replaces a persona's traits and values with the model's adjusted JSON lists
+ */
+export function applyAdaptation(data: PersonaStateData, traits: string | null, values: string | null): void {
+    if (traits !== null && values !== null) {
+        data.personalityTraits = JSON.parse(traits);
+        data.values = JSON.parse(values);
+    }
+}
+
 /**
  * Stores a new Evolunary persona in the database.
  * @param persona Complete persona data to store
  * @returns Created database record
  */
-export async function createAgentPersona(persona: AgentPersona) {
+export async function createAgentPersona(persona: AgentPersona, tx?: postgres.TransactionSql) {
     // Convert arrays to proper PostgreSQL array format
     const personalityTraitsArray = persona.personalityTraits?.length ? 
         persona.personalityTraits : [];
@@ -146,7 +478,7 @@ export async function createAgentPersona(persona: AgentPersona) {
     const valuesArray = persona.values?.length ? 
         persona.values : [];
 
-    return await sql`
+    return await (tx ?? sql)`
         INSERT INTO agent_personas (
             id,
             agent_id,
@@ -164,7 +496,10 @@ export async function createAgentPersona(persona: AgentPersona) {
             learnings,
             patterns,
             values,
-            prompt
+            prompt,
+            merged_from,
+            parent_version,
+            content_hash
         ) VALUES (
             ${persona.id},
             ${persona.agentId},
@@ -182,7 +517,10 @@ export async function createAgentPersona(persona: AgentPersona) {
             ${learningsArray}::text[],
             ${patternsArray}::text[],
             ${valuesArray}::text[],
-            ${persona.prompt}
+            ${persona.prompt},
+            ${persona.mergedFrom ?? null},
+            ${persona.parentVersion ?? null},
+            ${persona.contentHash ?? null}
         ) RETURNING *
     `;
 }
@@ -193,13 +531,682 @@ export async function createAgentPersona(persona: AgentPersona) {
  * @param sessionId Target session identifier
  * @returns Array of matching personas
  */
-export async function getAgentPersonas(agentId: string, sessionId: string): Promise<AgentPersona[]> {
-    const result = await sql<AgentPersona[]>`
+export async function getAgentPersonas(agentId: string, sessionId: string): Promise<StoredAgentPersona[]> {
+    const result = await sql<StoredAgentPersona[]>`
         SELECT * FROM agent_personas WHERE agent_id = ${agentId} AND session_id = ${sessionId}
     `;
     return result
 }
 
+/**
+ * Stores the selection statistics of a persona version.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param version Version string in format "level@version"
+ * @param stats Current fitness, evaluation count and visit count
+ */
+export async function updatePersonaNodeStats(
+    agentId: string,
+    sessionId: string,
+    version: string,
+    stats: { fitness: number | null; evaluations: number; visits: number },
+    tx?: postgres.TransactionSql
+) {
+    await (tx ?? sql)`
+        UPDATE agent_personas
+        SET fitness = ${stats.fitness}, evaluations = ${stats.evaluations}, visits = ${stats.visits}, updated_at = NOW()
+        WHERE agent_id = ${agentId} AND session_id = ${sessionId} AND version = ${version}
+    `;
+}
+
+/**
+ * Stores the data of a persona version that learning or adaptation changed, with its new
+ * content hash and the new hashes of its descendants, whose lineage changed with it.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param node Changed version, already rehashed
+ */
+export async function updatePersonaContent(agentId: string, sessionId: string, node: TreeNodeJSON<PersonaStateData>) {
+    const { data } = node;
+    await sql.begin(async tx => {
+        await tx`
+            UPDATE agent_personas
+            SET personality_traits = ${data.personalityTraits}::text[],
+                goals = ${data.goals}::text[],
+                interests = ${data.interests}::text[],
+                background = ${data.background}::text[],
+                skills = ${data.skills}::text[],
+                lore = ${data.lore}::text[],
+                memories = ${data.memories}::text[],
+                learnings = ${data.learnings}::text[],
+                patterns = ${data.patterns}::text[],
+                values = ${data.values}::text[],
+                prompt = ${data.prompt},
+                content_hash = ${node.hash ?? null},
+                updated_at = NOW()
+            WHERE agent_id = ${agentId} AND session_id = ${sessionId} AND version = ${node.version}
+        `;
+
+        const rehashDescendants = async (parent: TreeNodeJSON<PersonaStateData>): Promise<void> => {
+            for (const child of parent.children) {
+                await tx`
+                    UPDATE agent_personas SET content_hash = ${child.hash ?? null}, updated_at = NOW()
+                    WHERE agent_id = ${agentId} AND session_id = ${sessionId} AND version = ${child.version}
+                `;
+                await rehashDescendants(child);
+            }
+        };
+        await rehashDescendants(node);
+    });
+}
+
+/**
+ * Records the current persona version of a session.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param version Version string in format "level@version"
+ */
+export async function setPersonaHead(agentId: string, sessionId: string, version: string, tx?: postgres.TransactionSql) {
+    await (tx ?? sql)`
+        INSERT INTO persona_heads (agent_id, session_id, version)
+        VALUES (${agentId}, ${sessionId}, ${version})
+        ON CONFLICT (agent_id, session_id) DO UPDATE
+        SET version = EXCLUDED.version, updated_at = NOW()
+    `;
+}
+
+/**
+ * Fetches the current persona version of a session.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @returns The version, or null if none has been recorded
+ */
+export async function getPersonaHead(agentId: string, sessionId: string): Promise<string | null> {
+    const [head] = await sql<{ version: string }[]>`
+        SELECT version FROM persona_heads WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+    `;
+    return head?.version ?? null;
+}
+
+/**
+ * Fetches the ancestors of a persona version, nearest first.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param version Version string in format "level@version"
+ * @returns Ancestors from the parent up to the root
+ */
+export async function getPersonaAncestors(agentId: string, sessionId: string, version: string): Promise<AgentPersona[]> {
+    return await sql<AgentPersona[]>`
+        WITH RECURSIVE lineage AS (
+            SELECT p.*, 0 AS depth FROM agent_personas p
+            WHERE p.agent_id = ${agentId} AND p.session_id = ${sessionId} AND p.version = ${version}
+            UNION ALL
+            SELECT p.*, lineage.depth + 1 FROM agent_personas p
+            JOIN lineage ON p.version = lineage.parent_version
+            WHERE p.agent_id = ${agentId} AND p.session_id = ${sessionId}
+        )
+        SELECT * FROM lineage WHERE depth > 0 ORDER BY depth
+    `;
+}
+
+/**
+ * Fetches the descendants of a persona version, level by level.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param version Version string in format "level@version"
+ * @returns Every version evolved or merged from this one, directly or indirectly
+ */
+export async function getPersonaDescendants(agentId: string, sessionId: string, version: string): Promise<AgentPersona[]> {
+    return await sql<AgentPersona[]>`
+        WITH RECURSIVE lineage AS (
+            SELECT p.* FROM agent_personas p
+            WHERE p.agent_id = ${agentId} AND p.session_id = ${sessionId} AND p.parent_version = ${version}
+            UNION ALL
+            SELECT p.* FROM agent_personas p
+            JOIN lineage ON p.parent_version = lineage.version
+            WHERE p.agent_id = ${agentId} AND p.session_id = ${sessionId}
+        )
+        SELECT * FROM lineage ORDER BY node_level, node_version
+    `;
+}
+
+/**
+ * Fetches the other children of a persona version's parent.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param version Version string in format "level@version"
+ * @returns Sibling versions, excluding the version itself
+ */
+export async function getPersonaSiblings(agentId: string, sessionId: string, version: string): Promise<AgentPersona[]> {
+    return await sql<AgentPersona[]>`
+        SELECT s.* FROM agent_personas s
+        JOIN agent_personas p
+            ON p.agent_id = s.agent_id AND p.session_id = s.session_id AND p.parent_version = s.parent_version
+        WHERE p.agent_id = ${agentId} AND p.session_id = ${sessionId} AND p.version = ${version}
+            AND s.version <> p.version
+        ORDER BY s.node_version
+    `;
+}
+
+/**
+ * Finds the parent of a persona among the rows of its session.
+ * Rows written before parents were stored fall back to the version one level up that
+ * the persona differs from least.
+ * @param persona Persona whose parent to find
+ * @param personas Every persona of the session
+ * @returns The parent, or null for the root; `inferred` is set when the stored parent was missing
+ */
+export function resolvePersonaParent(
+    persona: AgentPersona,
+    personas: AgentPersona[]
+): { parent: AgentPersona | null; inferred: boolean } {
+    if (persona.parentVersion) {
+        const stored = personas.find(candidate => candidate.version === persona.parentVersion);
+        if (stored) return { parent: stored, inferred: false };
+    }
+
+    const candidates = personas.filter(candidate => candidate.nodeLevel === persona.nodeLevel - 1);
+    const [closest] = candidates
+        .map(candidate => ({ candidate, changes: diffPersonaFields(candidate, persona).length }))
+        .sort((a, b) => a.changes - b.changes);
+    return { parent: closest?.candidate ?? null, inferred: candidates.length > 1 };
+}
+
+/**
+ * Converts database personas to the tree structure of their evolution history.
+ * @param personas Array of personas from database
+ * @param currentVersion Recorded current version; defaults to the newest version at the deepest level
+ * @returns Tree state JSON structure
+ */
+export function convertAgentPersonasToTree(
+    personas: AgentPersona[],
+    currentVersion?: string | null
+): TreeStateJSON<PersonaStateData> {
+    if (!personas.length) {
+        throw new Error('Personas array cannot be empty');
+    }
+
+    // Sort personas by nodeLevel and nodeVersion to ensure proper tree structure
+    const sortedPersonas = [...personas].sort((a, b) => {
+        if (a.nodeLevel !== b.nodeLevel) {
+            return a.nodeLevel - b.nodeLevel;
+        }
+        return a.nodeVersion - b.nodeVersion;
+    });
+
+    // Find the root node (level 0)
+    const rootPersona = sortedPersonas.find(p => p.nodeLevel === 0);
+    if (!rootPersona) {
+        throw new Error('No root persona (level 0) found');
+    }
+
+    // Group every persona under its stored (or, for older rows, inferred) parent
+    const childrenOf = new Map<AgentPersona, AgentPersona[]>();
+    sortedPersonas.forEach(persona => {
+        if (persona === rootPersona) return;
+        const { parent } = resolvePersonaParent(persona, sortedPersonas);
+        if (!parent) return;
+        childrenOf.set(parent, [...(childrenOf.get(parent) || []), persona]);
+    });
+
+    // Function to build TreeNodeJSON recursively
+    const buildTreeNode = (persona: AgentPersona): TreeNodeJSON<PersonaStateData> => {
+        const children = (childrenOf.get(persona) || []).map(buildTreeNode);
+
+        return {
+            version: `${persona.nodeLevel}@${persona.nodeVersion}`,
+            level: persona.nodeLevel,
+            data: toPersonaStateData(persona),
+            children,
+            fitness: persona.fitness ?? null,
+            evaluations: persona.evaluations ?? 0,
+            visits: persona.visits ?? 0,
+            mergedFrom: persona.mergedFrom ?? null
+        };
+    };
+
+    // Build the tree starting from root
+    const root = buildTreeNode(rootPersona);
+
+    // Calculate maxLevel
+    const maxLevel = Math.max(...sortedPersonas.map(p => p.nodeLevel));
+
+    // Find the current node version (assuming it's the latest version at the highest level)
+    const currentNode = sortedPersonas.reduce((latest, persona) => {
+        if (persona.nodeLevel === maxLevel) {
+            if (!latest || persona.nodeVersion > parseInt((latest as unknown as string).split('@')[1])) {
+                return `${persona.nodeLevel}@${persona.nodeVersion}`;
+            }
+        }
+        return latest;
+    }, null);
+
+    const recorded = currentVersion && sortedPersonas.some(persona => persona.version === currentVersion);
+
+    return {
+        root,
+        maxLevel,
+        currentNode: recorded ? currentVersion : (currentNode as string)
+    };
+}
+
+/**
+ * Rebuilds an agent session's persona evolution tree from the database.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @returns The tree, or null if the session has no personas yet
+ */
+export async function loadPersonaTree(agentId: string, sessionId: string): Promise<VersionedTree<PersonaStateData> | null> {
+    const personas = await getAgentPersonas(agentId, sessionId);
+    if (!personas.length) return null;
+    const head = await getPersonaHead(agentId, sessionId);
+    const tree = new VersionedTree<PersonaStateData>({ treeState: convertAgentPersonasToTree(personas, head) });
+    tree.reserveVersions(await getArchivedPersonaVersions(agentId, sessionId));
+    return tree;
+}
+
+/**
+ * Result of checking a persona version against the agent's signed commitments.
+ */
+export interface PersonaVerification {
+    version: string;
+    contentHash: string;            // Recomputed from the stored data and the parent's hash
+    storedHash: string | null;      // Hash recorded when the version was written
+    matches: boolean;               // Stored data still hashes to the recorded hash
+    commitments: {                  // Transitions whose signed proofs reference the hash
+        logId: string;
+        action: string;
+        toState: string;
+        timestamp: number;
+        stateHash: string;
+    }[];
+}
+
+/**
+ * Recomputes a persona version's content hash and finds the transitions that committed to it.
+ * A version is what the agent committed to when its stored data matches its recorded hash and
+ * at least one proof references that hash; the proofs themselves are checked by auditSession().
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param version Version string in format "level@version"
+ * @returns The verification, or null if the version is not live
+ */
+export async function verifyPersonaVersion(
+    agentId: string,
+    sessionId: string,
+    version: string
+): Promise<PersonaVerification | null> {
+    const personas = await getAgentPersonas(agentId, sessionId);
+    const persona = personas.find(candidate => candidate.version === version);
+    if (!persona) return null;
+
+    const tree = new VersionedTree<PersonaStateData>({ treeState: convertAgentPersonasToTree(personas) });
+    const node = tree.findNodeByVersion(version);
+    if (!node) return null;
+
+    const storedHash = persona.contentHash ?? null;
+    const commitments = await getContentCommitments(agentId, sessionId, node.hash);
+
+    return {
+        version,
+        contentHash: node.hash,
+        storedHash,
+        matches: storedHash === node.hash,
+        commitments: commitments.map(log => ({
+            logId: String(log.id),
+            action: log.action,
+            toState: log.toState,
+            timestamp: log.proof.timestamp,
+            stateHash: log.proof.stateHash
+        }))
+    };
+}
+
+/**
+ * A pruned persona subtree kept in compact archive storage.
+ */
+export interface PersonaArchive {
+    id: string;
+    agentId: string;
+    sessionId: string;
+    parentVersion: string;    // Version the subtree hung from
+    rootVersion: string;
+    versions: string[];       // Every version in the subtree
+    tree: TreeNodeJSON<PersonaStateData>;
+    archivedAt: Date;
+}
+
+/**
+ * Copies a nested value into plain JSON for a jsonb column; postgres.js only accepts
+ * types with index signatures, which the persona interfaces do not declare
+ */
+function toJSONValue(value: object): postgres.JSONValue {
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Moves pruned persona subtrees out of `agent_personas` into `persona_archives`.
+ * Each subtree becomes one archive row holding its nodes as JSON.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @param branches Subtrees returned by VersionedTree.prune()
+ */
+export async function archivePersonaBranches(agentId: string, sessionId: string, branches: PrunedBranch<PersonaStateData>[]) {
+    const versionsOf = (node: TreeNodeJSON<PersonaStateData>): string[] =>
+        [node.version, ...node.children.flatMap(versionsOf)];
+
+    await sql.begin(async tx => {
+        for (const branch of branches) {
+            const versions = versionsOf(branch.root);
+            await tx`
+                INSERT INTO persona_archives (id, agent_id, session_id, parent_version, root_version, versions, tree)
+                VALUES (
+                    ${randomUUID()},
+                    ${agentId},
+                    ${sessionId},
+                    ${branch.parentVersion},
+                    ${branch.root.version},
+                    ${versions}::text[],
+                    ${sql.json(toJSONValue(branch.root))}
+                )
+            `;
+            await tx`
+                DELETE FROM agent_personas
+                WHERE agent_id = ${agentId} AND session_id = ${sessionId} AND version = ANY(${versions}::text[])
+            `;
+        }
+    });
+}
+
+/**
+ * Lists the archived persona subtrees of a session, newest first.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @returns Array of archives
+ */
+export async function getPersonaArchives(agentId: string, sessionId: string): Promise<PersonaArchive[]> {
+    return await sql<PersonaArchive[]>`
+        SELECT * FROM persona_archives
+        WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+        ORDER BY archived_at DESC
+    `;
+}
+
+/**
+ * Lists every archived version of a session, so new versions never reuse their numbers.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ */
+export async function getArchivedPersonaVersions(agentId: string, sessionId: string): Promise<string[]> {
+    const rows = await sql<{ version: string }[]>`
+        SELECT UNNEST(versions) AS version FROM persona_archives
+        WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+    `;
+    return rows.map(row => row.version);
+}
+
+/**
+ * Restores an archived persona subtree into a tree and back into `agent_personas`.
+ * The rows are restored and the archive removed in one transaction; the tree only
+ * changes once it has committed.
+ * @param tree Evolution tree to graft the subtree onto; its parent version must still be live
+ * @param archiveId Archive identifier
+ * @returns Root version of the restored subtree, or null if the archive does not exist
+ */
+export async function restorePersonaArchive(
+    tree: VersionedTree<PersonaStateData>,
+    agentId: string,
+    sessionId: string,
+    archiveId: string
+): Promise<string | null> {
+    const [archive] = await sql<PersonaArchive[]>`
+        SELECT * FROM persona_archives
+        WHERE id = ${archiveId} AND agent_id = ${agentId} AND session_id = ${sessionId}
+    `;
+    if (!archive) return null;
+
+    const parent = tree.findNodeByVersion(archive.parentVersion);
+    if (!parent) {
+        throw new Error(`Version ${archive.parentVersion} not found`);
+    }
+
+    const restore = async (
+        tx: postgres.TransactionSql,
+        node: TreeNodeJSON<PersonaStateData>,
+        parentVersion: string,
+        parentHash: string
+    ) => {
+        const contentHash = hashNodeContent(node.data, parentHash);
+        await createAgentPersona({
+            id: randomUUID(),
+            agentId,
+            sessionId,
+            version: node.version,
+            nodeLevel: node.level,
+            nodeVersion: +node.version.split('@')[1],
+            parentVersion,
+            mergedFrom: node.mergedFrom ?? null,
+            contentHash,
+            ...node.data
+        }, tx);
+        await updatePersonaNodeStats(agentId, sessionId, node.version, {
+            fitness: node.fitness ?? null,
+            evaluations: node.evaluations ?? 0,
+            visits: node.visits ?? 0
+        }, tx);
+        for (const child of node.children) {
+            await restore(tx, child, node.version, contentHash);
+        }
+    };
+
+    await sql.begin(async tx => {
+        await restore(tx, archive.tree, archive.parentVersion, parent.hash);
+        await tx`DELETE FROM persona_archives WHERE id = ${archiveId}`;
+    });
+    tree.graft({ parentVersion: archive.parentVersion, root: archive.tree });
+
+    return archive.rootVersion;
+}
+
+/**
+ * One evolution cycle with everything needed to grow its tree again: the tree it started
+ * from, the seed of its random choices and the model's raw outputs.
+ */
+export interface EvolutionRun {
+    id: string;
+    agentId: string;
+    sessionId: string;
+    seed: number;                       // Seed of the tree's random source during the cycle
+    selection: PersonaSelectionConfig;
+    retention: RetentionPolicy | null;
+    parentVersion: string;              // Version the cycle evolved from
+    newVersion: string;                 // Version the cycle adopted
+    calls: ModelCall[];                 // Model calls, in the order they were made
+    treeBefore: TreeStateJSON<PersonaStateData>;
+    treeAfter: TreeStateJSON<PersonaStateData>;
+    createdAt: Date;
+}
+
+/**
+ * An evolution run without its transcript and tree snapshots.
+ */
+export type EvolutionRunSummary = Omit<EvolutionRun, 'calls' | 'treeBefore' | 'treeAfter'> & { callCount: number };
+
+/**
+ * Stores the record of an evolution cycle in `evolution_runs`.
+ * @param run Run record
+ */
+export async function saveEvolutionRun(run: Omit<EvolutionRun, 'createdAt'>) {
+    await sql`
+        INSERT INTO evolution_runs (
+            id, agent_id, session_id, seed, selection, retention,
+            parent_version, new_version, calls, tree_before, tree_after
+        ) VALUES (
+            ${run.id},
+            ${run.agentId},
+            ${run.sessionId},
+            ${run.seed},
+            ${sql.json(toJSONValue(run.selection))},
+            ${run.retention ? sql.json({ ...run.retention }) : null},
+            ${run.parentVersion},
+            ${run.newVersion},
+            ${sql.json(run.calls.map(call => ({ ...call })))},
+            ${sql.json(toJSONValue(run.treeBefore))},
+            ${sql.json(toJSONValue(run.treeAfter))}
+        )
+    `;
+}
+
+/**
+ * Lists the evolution runs of a session, newest first.
+ * @param agentId Target agent identifier
+ * @param sessionId Target session identifier
+ * @returns Array of run summaries
+ */
+export async function getEvolutionRuns(agentId: string, sessionId: string): Promise<EvolutionRunSummary[]> {
+    return await sql<EvolutionRunSummary[]>`
+        SELECT id, agent_id, session_id, seed, selection, retention, parent_version, new_version,
+            jsonb_array_length(calls) AS call_count, created_at
+        FROM evolution_runs
+        WHERE agent_id = ${agentId} AND session_id = ${sessionId}
+        ORDER BY created_at DESC
+    `;
+}
+
+/**
+ * Retrieves one evolution run with its transcript and tree snapshots.
+ * @param agentId Target agent identifier
+ * @param runId Run identifier
+ * @returns The run, or null if it does not exist
+ */
+export async function getEvolutionRun(agentId: string, runId: string): Promise<EvolutionRun | null> {
+    const [run] = await sql<EvolutionRun[]>`
+        SELECT * FROM evolution_runs
+        WHERE id = ${runId} AND agent_id = ${agentId}
+    `;
+    if (!run) return null;
+    return { ...run, seed: Number(run.seed) };
+}
+
+/**
+ * Result of replaying an evolution run.
+ */
+export interface EvolutionReplay {
+    tree: VersionedTree<PersonaStateData>;
+    newVersion: string;
+    matches: boolean;       // The replay grew the tree the run recorded
+}
+
+/**
+ * Grows an evolution run's tree again from its starting tree, its seed and its recorded model
+ * outputs, without calling the model or writing anything.
+ * The replay repeats the cycle's steps that change the tree: selecting the parent, branching,
+ * scoring the adopted version, learning, adapting and pruning.
+ * @param run Run record
+ * @returns The rebuilt tree and whether it matches the recorded one
+ * @throws If the transcript lacks a call the cycle makes
+ */
+export function replayEvolutionRun(run: EvolutionRun): EvolutionReplay {
+    const tree = new VersionedTree<PersonaStateData>({ treeState: run.treeBefore, random: seededRandom(run.seed) });
+    const transcript = new ModelTranscript(run.calls);
+    const branchOptions = personaBranchOptions(run.selection);
+
+    const parent = tree.selectParent(branchOptions);
+    const { newVersion } = branchPersonaTree(tree, transcript.output('evolution') ?? '', {
+        ...branchOptions,
+        parentVersion: parent.version
+    });
+
+    const current = tree.getCurrentNode();
+    const score = parseEvaluationScore(transcript.output('evaluation') ?? '');
+    if (score !== null) current.recordFitness(score);
+    applyLearning(current.data, transcript.output('patterns'), transcript.output('values'));
+    applyAdaptation(current.data, transcript.output('traits'), transcript.output('recalibration'));
+    if (run.retention) tree.prune(run.retention);
+
+    // Compare through a fresh load, which recomputes every content hash from the data
+    const normalize = (state: TreeStateJSON<PersonaStateData>) =>
+        canonicalize(JSON.parse(new VersionedTree<PersonaStateData>({ treeState: state }).save()));
+
+    return {
+        tree,
+        newVersion,
+        matches: newVersion === run.newVersion && normalize(JSON.parse(tree.save())) === normalize(run.treeAfter)
+    };
+}
+
+/**
+ * Outcome of merging two persona versions.
+ */
+export interface PersonaMergeOutcome {
+    base: string;                   // Common ancestor the merge was computed against
+    ours: string;
+    theirs: string;
+    conflicts: PersonaConflict[];
+    version: string | null;         // New merged version, or null while conflicts are unresolved
+    contentHash: string | null;     // Content hash of the merged version
+}
+
+/**
+ * Three-way merges two versions of a persona tree and stores the result.
+ * The merged persona becomes a child of `ours` and the tree's current node. Nothing is
+ * added or stored while any conflict is unresolved.
+ * @param tree Evolution tree holding both versions
+ * @param resolve Side to take per field, settling conflicts
+ */
+export async function mergePersonaVersions(
+    tree: VersionedTree<PersonaStateData>,
+    agentId: string,
+    sessionId: string,
+    ours: string,
+    theirs: string,
+    resolve: Partial<Record<keyof PersonaStateData, MergeSide>> = {}
+): Promise<PersonaMergeOutcome> {
+    const oursNode = tree.findNodeByVersion(ours);
+    const theirsNode = tree.findNodeByVersion(theirs);
+    if (!oursNode || !theirsNode) {
+        throw new Error(`Version ${oursNode ? theirs : ours} not found`);
+    }
+
+    const base = tree.commonAncestor(ours, theirs);
+    if (base === oursNode || base === theirsNode) {
+        throw new Error(`Versions ${ours} and ${theirs} are on the same line of descent`);
+    }
+
+    const merged = mergePersonas(base.data, oursNode.data, theirsNode.data, resolve);
+    const outcome: PersonaMergeOutcome = {
+        base: base.version,
+        ours,
+        theirs,
+        conflicts: merged.conflicts,
+        version: null,
+        contentHash: null
+    };
+    if (!merged.resolved) return outcome;
+
+    // Store the merged version and make it the head before the tree gains it
+    const version = tree.nextChildVersion(ours);
+    const [nodeLevel, nodeVersion] = version.split('@').map(Number);
+    await sql.begin(async tx => {
+        await createAgentPersona({
+            id: randomUUID(),
+            agentId,
+            sessionId,
+            version,
+            nodeLevel,
+            nodeVersion,
+            mergedFrom: theirs,
+            parentVersion: ours,
+            contentHash: hashNodeContent(merged.data, oursNode.hash),
+            ...merged.data
+        }, tx);
+        await setPersonaHead(agentId, sessionId, version, tx);
+    });
+    const node = tree.addNode(ours, merged.data, theirs);
+
+    return { ...outcome, version: node.version, contentHash: node.hash };
+}
+
 /**
  * Updates an Evolunary persona in the database.
  * @param id Persona identifier
@@ -254,33 +1261,44 @@ export async function listAgentPersonas(agentId?: string) {
  * Evolunary agent: persona subagent class managing adaptation and learning.
  */
 export class PersonaSubAgent {
-    private sm: StateMachine<PersonaState>;
+    private sm: StateMachine<PersonaState, PersonaEvents, PersonaContexts>;
     private vt: VersionedTree<PersonaStateData>;
     private agentId: string;
     private sessionId: string;
     private evolutionTimer: NodeJS.Timeout | null = null;
+    private policies: PersonaOverlapPolicies;
+    private selection: PersonaSelectionConfig;
+    private retention?: RetentionPolicy;
+    private seeds: () => number;
+    private transcript: ModelTranscript | null = null;
+    private conversation: ConversationConfig;
     
     /**
      * Creates a new persona subagent instance
      * @param agentId Parent agent identifier
      * @param sessionId Current session identifier
      * @param privateKey Encryption key for secure operations
+     * @param options Overrides for operation overlap policies, evolution selection, tree retention, seeding and chat history
      */
     constructor(
         agentId: string,
         sessionId: string,
         privateKey: string,
+        options: PersonaSubAgentOptions = {}
     ) {
         this.agentId = agentId;
         this.sessionId = sessionId;
+        this.policies = { ...defaultPersonaOverlapPolicies, ...options.policies };
+        this.selection = { ...defaultPersonaSelection, ...options.selection };
+        this.retention = options.retention;
+        this.seeds = seedSequence(options.seed ?? generateSeed());
+        this.conversation = { historyWindow: options.historyWindow ?? defaultConversationConfig.historyWindow };
         
-        this.sm = new StateMachine<PersonaState>(
+        this.sm = StateMachine.fromDefinition<PersonaState, PersonaEvents, PersonaContexts>(
+            personaDefinition,
             agentId,
             sessionId,
-            privateKey,
-            personaStates,
-            personaTransitions,
-            'INITIALIZING'
+            privateKey
         );
         
     }
@@ -299,9 +1317,11 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
     };
 
     // Feed into persona evolution cycle
-    await this.generateResponse(experience);
-    await this.learn(experience);
-    await this.adapt();
+    await this.sm.run('INGEST_POST', async () => {
+        await this.generateResponse(experience);
+        await this.learn(experience);
+        await this.adapt();
+    }, this.policies.ingest);
 }
 
             
@@ -313,7 +1333,14 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
         let nodeLevel = 0;
         let nodeVersion = 1;
 
-        if (initialPersona) {
+        // Continue the session's existing proof chain after a restart or worker crash
+        const resumed = await this.sm.restore();
+        if (resumed) {
+            await this.recoverInterruptedState();
+        }
+
+        if (initialPersona && !resumed) {
+            this.vt = new VersionedTree<PersonaStateData>({ initialData: toPersonaStateData(initialPersona) });
             await createAgentPersona({
                 id: randomUUID(),
                 agentId: this.agentId,
@@ -321,9 +1348,9 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
                 version: '0@1',
                 nodeLevel: nodeLevel,
                 nodeVersion: nodeVersion,
-                ...initialPersona
+                contentHash: this.vt.root.hash,
+                ...this.vt.root.data
             });
-            this.vt = new VersionedTree<PersonaStateData>({ initialData: initialPersona });
 
         } else {
            await this.loadFromDB(this.agentId, this.sessionId);
@@ -338,19 +1365,51 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
     async start(initialPersona?: PersonaStateData, evolutionInterval: number = 300000) {
         await this.init(initialPersona);
         this.vt.printMinimal();
-        await this.initialize();
+        await this.sm.run('INITIALIZE', () => this.initialize());
         this.evolutionTimer = setInterval(() => this.evolve(), evolutionInterval);
         await this.evolve();
     }
 
     /**
-     * Stops the persona's evolution cycle
+     * Stops the persona's evolution cycle and its state watchdog
      */
     stop() {
         if (this.evolutionTimer) {
             clearInterval(this.evolutionTimer);
             this.evolutionTimer = null;
         }
+        this.sm.dispose();
+    }
+
+    /**
+     * Subscribes to the persona machine's committed transitions
+     * @returns Function that removes the subscription
+     */
+    onTransition(listener: TransitionListener<PersonaState>): () => void {
+        return this.sm.onTransition(listener);
+    }
+
+    /**
+     * Rotates the agent's signing key
+     * The rotation is recorded as a transition signed by the outgoing key
+     */
+    async rotateKey(): Promise<Proof> {
+        const { signer, generation } = await nextAgentSigner(this.agentId);
+        return this.sm.rotateKey(signer, generation);
+    }
+
+    /**
+     * Returns a resumed machine to READY if the process stopped mid-operation
+     * The interruption is recorded as ERROR -> READY so the proof chain shows it
+     */
+    private async recoverInterruptedState() {
+        const state = this.sm.getCurrentState();
+        if (state === 'READY' || state === 'INITIALIZING') return;
+
+        if (state !== 'ERROR') {
+            await this.sm.send({ type: 'RESUMED_AFTER_INTERRUPTION', payload: { interruptedState: state } });
+        }
+        await this.sm.send({ type: 'RECOVERED_FROM_INTERRUPTION' });
     }
 
     /**
@@ -359,15 +1418,18 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
      */
     private async initialize() {
         // INITIALIZING -> LOADING -> INITIALIZING -> READY
-        await this.sm.to('LOADING', 'START_INITIALIZATION');
+        await this.sm.send({ type: 'START_INITIALIZATION' });
         
         // Load initial state
         const currentPersona = this.vt.getCurrentNode().data;
         if (!currentPersona.patterns) currentPersona.patterns = [];
         if (!currentPersona.values) currentPersona.values = [];
         
-        await this.sm.to('INITIALIZING', 'PROCESS_LOADED_STATE');
-        await this.sm.to('READY', 'INITIALIZATION_COMPLETE');
+        await this.sm.send({ type: 'PROCESS_LOADED_STATE' });
+
+        // Commit to the exact persona the agent starts from
+        const { version, hash } = this.vt.getCurrentNode();
+        await this.sm.send({ type: 'INITIALIZATION_COMPLETE', payload: { version } }, hash);
     }
 
     /**
@@ -378,26 +1440,26 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
      */
     private async generateResponse(experience: any): Promise<string> {
         // READY -> GENERATING_RESPONSE -> APPLYING_PERSONALITY -> EVALUATING_RESPONSE -> READY
-        await this.sm.to('GENERATING_RESPONSE', 'START_RESPONSE_GENERATION');
+        await this.sm.send({ type: 'START_RESPONSE_GENERATION' });
         
         const systemPrompt = `You are an advanced AI persona generating responses to new experiences. 
         Consider the current personality traits and values while formulating the response.`;
         
-        const response = await prompt(systemPrompt, JSON.stringify(experience), 2000);
+        const response = await this.complete('response', systemPrompt, JSON.stringify(experience), 2000);
         
-        await this.sm.to('APPLYING_PERSONALITY', 'APPLY_PERSONALITY');
+        await this.sm.send({ type: 'APPLY_PERSONALITY' });
         
         const personalityPrompt = `
         Modify this response according to the following personality traits:
         ${JSON.stringify(this.vt.getCurrentNode().data.personalityTraits)}
         
         Response to modify:
-        ${response.content}
+        ${response}
         `;
         
-        const modifiedResponse = await prompt(systemPrompt, personalityPrompt, 2000);
+        const modifiedResponse = await this.complete('personality', systemPrompt, personalityPrompt, 2000);
         
-        await this.sm.to('EVALUATING_RESPONSE', 'EVALUATE_RESPONSE');
+        await this.sm.send({ type: 'EVALUATE_RESPONSE' });
         
         const evaluationPrompt = `
         Evaluate if this response aligns with the agent's values and goals:
@@ -405,14 +1467,53 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
         ${JSON.stringify(this.vt.getCurrentNode().data.goals)}
         
         Response to evaluate:
-        ${modifiedResponse.content}
+        ${modifiedResponse}
+
+        return only the JSON and no prose.
+        {
+            "score": number between 0 and 1
+        }
         `;
         
-        await prompt("You are an AI ethics expert.", evaluationPrompt, 1000);
+        const evaluation = await this.complete('evaluation', "You are an AI ethics expert.", evaluationPrompt, 1000);
+        await this.recordEvaluation(evaluation ?? '');
         
-        await this.sm.to('READY', 'RESPONSE_COMPLETE');
+        await this.sm.send({ type: 'RESPONSE_COMPLETE' });
         
-        return modifiedResponse.content[0].type === 'text' ? modifiedResponse.content[0].text : '';
+        return modifiedResponse ?? '';
+    }
+
+    /**
+     * Scores the current persona version with an evaluation of one of its responses
+     * Unparseable evaluations are ignored, so they never fail the response
+     * @param evaluation Raw evaluation JSON from the model
+     */
+    private async recordEvaluation(evaluation: string) {
+        const score = parseEvaluationScore(evaluation);
+        if (score === null) return;
+
+        const node = this.vt.getCurrentNode();
+        node.recordFitness(score);
+        await updatePersonaNodeStats(this.agentId, this.sessionId, node.version, node);
+    }
+
+    /**
+     * Branch options built from the persona's selection config
+     */
+    private branchOptions(): BranchOptions {
+        return personaBranchOptions(this.selection);
+    }
+
+    /**
+     * Sends a prompt to the model, recording the call while an evolution cycle runs
+     * @param step Name of the calling step, used to replay the output
+     * @returns Text of the reply, or null if it held no text
+     */
+    private async complete(step: string, system: string, promptText: string, maxTokens: number = 2000): Promise<string | null> {
+        const response = await prompt(system, promptText, maxTokens);
+        const output = response.content[0].type === 'text' ? response.content[0].text : null;
+        this.transcript?.record({ step, system, prompt: promptText, maxTokens, output });
+        return output;
     }
 
     /**
@@ -422,11 +1523,11 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
      */
     private async learn(experience: any) {
         // READY -> LEARNING -> PATTERN_RECOGNITION -> VALUE_INTEGRATION -> READY
-        await this.sm.to('LEARNING', 'START_LEARNING');
+        await this.sm.send({ type: 'START_LEARNING' });
         
         const currentNode = this.vt.getCurrentNode();
         
-        await this.sm.to('PATTERN_RECOGNITION', 'IDENTIFY_PATTERNS');
+        await this.sm.send({ type: 'IDENTIFY_PATTERNS' });
         
         const patternPrompt = `
         Analyze this experience for patterns, considering existing patterns:
@@ -436,33 +1537,32 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
         ${JSON.stringify(experience)}
         `;
         
-        const patternResponse = await prompt(
+        const patternResponse = await this.complete(
+            'patterns',
             "You are an expert at pattern recognition in AI systems.",
             patternPrompt,
             2000
         );
         
-        if (patternResponse.content[0].type === 'text') 
-            currentNode.data.patterns.push(patternResponse.content[0].text);
-        
-        await this.sm.to('VALUE_INTEGRATION', 'INTEGRATE_VALUES');
+        await this.sm.send({ type: 'INTEGRATE_VALUES' });
         
         const valuePrompt = `
         Based on identified patterns, should any values be updated?
         Current values: ${JSON.stringify(currentNode.data.values)}
-        New patterns: ${patternResponse.content}
+        New patterns: ${patternResponse}
         `;
         
-        const valueResponse = await prompt(
+        const valueResponse = await this.complete(
+            'values',
             "You are an AI values alignment expert.",
             valuePrompt,
             2000
         );
         
-        if (valueResponse.content[0].type === 'text') 
-            currentNode.data.values.push(valueResponse.content[0].text);
+        applyLearning(currentNode.data, patternResponse, valueResponse);
         
-        await this.sm.to('READY', 'LEARNING_COMPLETE');
+        const { version, hash } = await this.storeCurrentContent();
+        await this.sm.send({ type: 'LEARNING_COMPLETE', payload: { version } }, hash);
     }
 
     /**
@@ -471,11 +1571,11 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
      */
     private async adapt() {
         // READY -> ADAPTING -> TRAIT_ADJUSTMENT -> VALUE_RECALIBRATION -> READY
-        await this.sm.to('ADAPTING', 'START_ADAPTATION');
+        await this.sm.send({ type: 'START_ADAPTATION' });
         
         const currentNode = this.vt.getCurrentNode();
         
-        await this.sm.to('TRAIT_ADJUSTMENT', 'ADJUST_TRAITS');
+        await this.sm.send({ type: 'ADJUST_TRAITS' });
         
         const traitPrompt = `
         Analyze these personality traits for potential adjustments based on recent learnings:
@@ -483,106 +1583,150 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
         Recent learnings: ${JSON.stringify(currentNode.data.learnings.slice(-5))}
         `;
         
-        const traitResponse = await prompt(
+        const traitResponse = await this.complete(
+            'traits',
             "You are an AI personality development expert. return only the JSON and no prose.",
             traitPrompt,
             2000
         );
         
-        await this.sm.to('VALUE_RECALIBRATION', 'RECALIBRATE_VALUES');
+        await this.sm.send({ type: 'RECALIBRATE_VALUES' });
         
         const recalibrationPrompt = `
         Recalibrate values based on adjusted traits:
-        ${traitResponse.content}
+        ${traitResponse}
         Current values: ${JSON.stringify(currentNode.data.values)}
         return only the JSON and no prose.
         `;
         
-        const recalibrationResponse = await prompt(
+        const recalibrationResponse = await this.complete(
+            'recalibration',
             "You are an AI values alignment expert. return only the JSON and no prose.",
             recalibrationPrompt,
             2000
         );
         
-
-        if (traitResponse.content[0].type === 'text' && recalibrationResponse.content[0].type === 'text') {
-            currentNode.data.personalityTraits = JSON.parse(traitResponse.content[0].text);
-            currentNode.data.values = JSON.parse(recalibrationResponse.content[0].text);
-        }
+        applyAdaptation(currentNode.data, traitResponse, recalibrationResponse);
         
-        await this.sm.to('READY', 'ADAPTATION_COMPLETE');
+        const { version, hash } = await this.storeCurrentContent();
+        await this.sm.send({ type: 'ADAPTATION_COMPLETE', payload: { version } }, hash);
+    }
+
+    /**
+     * Rehashes and stores the current persona after learning or adaptation changed it
+     * @returns Its version and new content hash, for the completing transition to commit to
+     */
+    private async storeCurrentContent(): Promise<{ version: string; hash: string }> {
+        const currentNode = this.vt.getCurrentNode();
+        this.vt.updateCurrentData(currentNode.data);
+        await updatePersonaContent(this.agentId, this.sessionId, currentNode.toJSON());
+        return { version: currentNode.version, hash: currentNode.hash };
     }
 
     /**
      * Main evolution cycle
-     * Generates new experiences, learns, and adapts
-     * @returns Evolution results including new version and saved state
+     * Generates new experiences, learns, and adapts. Each cycle seeds the tree's random
+     * choices and records its model calls in an evolution run, so replayEvolutionRun()
+     * can grow the same tree again.
+     * @returns Evolution results including new version, saved state and run identifier
      */
     private async evolve() {
         try {
-            // Main evolution cycle following state transition rules
-            await this.sm.to('PROCESSING_EXPERIENCE', 'START_EVOLUTION');
+            return await this.sm.run('EVOLVE', async () => {
+                const seed = this.seeds();
+                this.vt.setRandom(seededRandom(seed));
+                const treeBefore: TreeStateJSON<PersonaStateData> = JSON.parse(this.vt.save());
+                this.transcript = new ModelTranscript();
+
+                // Main evolution cycle following state transition rules
+                await this.sm.send({ type: 'START_EVOLUTION' });
             
-            // Generate new experience
-            const experience = await this.generateNewExperience();
+                // Generate new experience
+                const experience = await this.generateNewExperience();
             
-            await this.sm.to('INTEGRATING_CHANGES', 'PROCESS_EXPERIENCE');
+                await this.sm.send({ type: 'PROCESS_EXPERIENCE' });
             
-            // Generate evolution possibilities
-            const currentNode = this.vt.getCurrentNode();
-            const evolutionResponse = await this.generateEvolutionPrompt(currentNode.data);
-            const evolutionData = JSON.parse(evolutionResponse);
+                // Pick the version to evolve from and generate evolution possibilities for it
+                const branchOptions = this.branchOptions();
+                const parent = this.vt.selectParent(branchOptions);
+                const evolutionResponse = await this.generateEvolutionPrompt(parent.data);
             
-            // Branch the tree with evolved personas
-            const newVersion = this.vt.branchRandomly((numChildren, childVersions) => {
-                let evoData =  evolutionData.evolutions
-                    .slice(0, numChildren)
-                    .map((evolution: PersonaStateData, index: number) => ({
-                        data: evolution,
-                        version: childVersions[index]
-                    }));
-                
-                evoData.forEach(async (evo) => {
-                    let evoParts = evo.version.split('@');
-                    let nodeLevel = +evoParts[0];
-                    let nodeVersion = +evoParts[1];
-
-                    await createAgentPersona({
-                        id: randomUUID(),
-                        agentId: this.agentId,
-                        sessionId: this.sessionId,
-                        version: evo.version,
-                        nodeLevel: nodeLevel,
-                        nodeVersion: nodeVersion,
-                        ...evo.data
-                    });
+                // Branch the tree with evolved personas
+                const { newVersion, children } = branchPersonaTree(this.vt, evolutionResponse, {
+                    ...branchOptions,
+                    parentVersion: parent.version
                 });
-
-                return evoData;
-            });
+                try {
+                    await sql.begin(async tx => {
+                        for (const child of children) {
+                            const [nodeLevel, nodeVersion] = child.version.split('@').map(Number);
+                            await createAgentPersona({
+                                id: randomUUID(),
+                                agentId: this.agentId,
+                                sessionId: this.sessionId,
+                                version: child.version,
+                                nodeLevel: nodeLevel,
+                                nodeVersion: nodeVersion,
+                                parentVersion: parent.version,
+                                contentHash: hashNodeContent(child.data, parent.hash),
+                                ...child.data
+                            }, tx);
+                        }
+                        await updatePersonaNodeStats(this.agentId, this.sessionId, parent.version, parent, tx);
+                        await setPersonaHead(this.agentId, this.sessionId, newVersion, tx);
+                    });
+                } catch (error) {
+                    // Nothing of the branch was stored, so drop it from the tree as well
+                    this.vt.load(treeBefore);
+                    throw error;
+                }
             
-            await this.sm.to('READY', 'EVOLUTION_INTEGRATION_COMPLETE');
+                // Commit to the exact persona the evolution selected
+                await this.sm.send({ type: 'EVOLUTION_INTEGRATION_COMPLETE', payload: { version: newVersion } }, this.vt.getCurrentNode().hash);
             
-            // From READY, we can initiate various processes
-            await this.generateResponse(experience);  // Includes its own state transitions
-            await this.learn(experience);            // Includes its own state transitions
-            await this.adapt();                      // Includes its own state transitions
+                // From READY, we can initiate various processes
+                await this.generateResponse(experience);  // Includes its own state transitions
+                await this.learn(experience);            // Includes its own state transitions
+                await this.adapt();                      // Includes its own state transitions
             
-            // Save state
-            await this.sm.to('SAVING', 'SAVE_STATE');
-            const savedState = await this.save();
+                // Save state, archiving the branches the tree no longer has room for
+                await this.sm.send({ type: 'SAVE_STATE' });
+                await this.archivePrunedBranches();
+                const savedState = await this.save();
+
+                const runId = randomUUID();
+                await saveEvolutionRun({
+                    id: runId,
+                    agentId: this.agentId,
+                    sessionId: this.sessionId,
+                    seed,
+                    selection: this.selection,
+                    retention: this.retention ?? null,
+                    parentVersion: parent.version,
+                    newVersion,
+                    calls: this.transcript.toJSON(),
+                    treeBefore,
+                    treeAfter: JSON.parse(savedState)
+                });
+                this.transcript = null;
             
-            await this.sm.to('READY', 'EVOLUTION_COMPLETE');
+                await this.sm.send({ type: 'EVOLUTION_COMPLETE', payload: { runId } });
             
-            return {
-                success: true,
-                newVersion,
-                savedState
-            };
+                return {
+                    success: true,
+                    newVersion,
+                    savedState,
+                    runId
+                };
+            }, this.policies.evolve);
         } catch (error) {
+            if (error instanceof TransitionBusyError) {
+                console.error('Evolution skipped:', error.message);
+                return { success: false, error };
+            }
+            // run() has already returned the machine to READY
+            this.transcript = null;
             console.error('Evolution error:', error);
-            // Return to READY state on error
-            await this.sm.to('READY', 'EVOLUTION_ERROR');
             return {
                 success: false,
                 error
@@ -590,6 +1734,36 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
         }
     }
 
+    /**
+     * Prunes the tree with the retention policy and archives the removed branches
+     */
+    private async archivePrunedBranches() {
+        if (!this.retention) return;
+        const pruned = this.vt.prune(this.retention);
+        if (pruned.length) {
+            await archivePersonaBranches(this.agentId, this.sessionId, pruned);
+        }
+    }
+
+    /**
+     * Restores an archived branch into the live tree
+     * The restore is recorded as READY -> LOADING -> INITIALIZING -> READY. Restored branches
+     * count toward the capacity again, so check one out to keep it past the next evolution cycle.
+     * @param archiveId Archive identifier
+     * @returns Root version of the restored branch, or null if the archive does not exist
+     */
+    async restoreArchive(archiveId: string): Promise<string | null> {
+        return this.sm.run('RESTORE', async () => {
+            const version = await restorePersonaArchive(this.vt, this.agentId, this.sessionId, archiveId);
+            if (version) {
+                await this.sm.send({ type: 'RESTORE_ARCHIVE', payload: { archiveId, version } });
+                await this.sm.send({ type: 'PROCESS_RESTORE' });
+                await this.sm.send({ type: 'RESTORE_COMPLETE' });
+            }
+            return version;
+        }, this.policies.restore);
+    }
+
     /**
      * Generates a new experience for learning
      * @returns Generated experience object
@@ -605,8 +1779,8 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
         }
         `;
         
-        const response = await prompt(systemPrompt, promptText, 1000);
-        return response.content[0].type === 'text' ? JSON.parse(response.content[0].text) : null;
+        const response = await this.complete('experience', systemPrompt, promptText, 1000);
+        return response !== null ? JSON.parse(response) : null;
     }
 
     /**
@@ -648,8 +1822,8 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
             }]
         }`;
 
-        const response = await prompt(systemPrompt, promptText, 4000);
-        return response.content[0].type === 'text' ? response.content[0].text : '';
+        const response = await this.complete('evolution', systemPrompt, promptText, 4000);
+        return response ?? '';
     }
 
     /**
@@ -705,8 +1879,9 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
      */
     async loadFromDB(agentId: string, sessionId: string) {
         let personas = await getAgentPersonas(agentId, sessionId);
-        let tree = this.convertAgentPersonasToTree(personas);
+        let tree = this.convertAgentPersonasToTree(personas, await getPersonaHead(agentId, sessionId));
         this.vt = new VersionedTree<PersonaStateData>({ treeState: tree });
+        this.vt.reserveVersions(await getArchivedPersonaVersions(agentId, sessionId));
     }
 
     /**
@@ -730,130 +1905,115 @@ async ingestTwitterPost(tweet: { text: string; time: string; metadata?: any }) {
      * @returns Tree state JSON structure
      */
     protected convertAgentPersonasToTree(
-        personas: AgentPersona[]
+        personas: AgentPersona[],
+        currentVersion?: string | null
     ): TreeStateJSON<PersonaStateData> {
-        if (!personas.length) {
-            throw new Error('Personas array cannot be empty');
-        }
+        return convertAgentPersonasToTree(personas, currentVersion);
+    }
     
-        // Sort personas by nodeLevel and nodeVersion to ensure proper tree structure
-        const sortedPersonas = [...personas].sort((a, b) => {
-            if (a.nodeLevel !== b.nodeLevel) {
-                return a.nodeLevel - b.nodeLevel;
+    /**
+     * Three-way merges two persona versions into a new current version
+     * The merge is recorded as READY -> SAVING -> READY; a merge with unresolved
+     * conflicts records nothing and leaves the tree unchanged
+     * @param resolve Side to take per field, settling conflicts
+     */
+    async mergeVersions(
+        ours: string,
+        theirs: string,
+        resolve: Partial<Record<keyof PersonaStateData, MergeSide>> = {}
+    ): Promise<PersonaMergeOutcome> {
+        return this.sm.run('MERGE', async () => {
+            const outcome = await mergePersonaVersions(this.vt, this.agentId, this.sessionId, ours, theirs, resolve);
+            if (outcome.version) {
+                await this.sm.send(
+                    { type: 'MERGE_VERSIONS', payload: { ours, theirs, base: outcome.base, version: outcome.version } },
+                    outcome.contentHash!
+                );
+                await this.sm.send({ type: 'MERGE_COMPLETE' });
             }
-            return a.nodeVersion - b.nodeVersion;
-        });
-    
-        // Find the root node (level 0)
-        const rootPersona = sortedPersonas.find(p => p.nodeLevel === 0);
-        if (!rootPersona) {
-            throw new Error('No root persona (level 0) found');
-        }
-    
-        // Function to extract PersonaStateData from AgentPersona
-        const extractStateData = (persona: AgentPersona): PersonaStateData => {
-            const {
-                personalityTraits,
-                goals,
-                interests,
-                background,
-                skills,
-                lore,
-                memories,
-                learnings,
-                patterns,
-                values,
-                prompt
-            } = persona;
-            
-            return {
-                personalityTraits,
-                goals,
-                interests,
-                background,
-                skills,
-                lore,
-                memories,
-                learnings,
-                patterns,
-                values,
-                prompt
-            };
-        };
-    
-        // Function to build TreeNodeJSON recursively
-        const buildTreeNode = (persona: AgentPersona, level: number): TreeNodeJSON<PersonaStateData> => {
-            const children = sortedPersonas
-                .filter(p => p.nodeLevel === level + 1)
-                .map(p => buildTreeNode(p, p.nodeLevel));
-    
-            return {
-                version: `${persona.nodeLevel}@${persona.nodeVersion}`,
-                level: persona.nodeLevel,
-                data: extractStateData(persona),
-                children
-            };
-        };
-    
-        // Build the tree starting from root
-        const root = buildTreeNode(rootPersona, 0);
-    
-        // Calculate maxLevel
-        const maxLevel = Math.max(...sortedPersonas.map(p => p.nodeLevel));
-    
-        // Find the current node version (assuming it's the latest version at the highest level)
-        const currentNode = sortedPersonas.reduce((latest, persona) => {
-            if (persona.nodeLevel === maxLevel) {
-                if (!latest || persona.nodeVersion > parseInt((latest as unknown as string).split('@')[1])) {
-                    return `${persona.nodeLevel}@${persona.nodeVersion}`;
-                }
+            return outcome;
+        }, this.policies.merge);
+    }
+
+    /**
+     * Switches the persona to an existing version, e.g. to roll back a bad evolution
+     * The switch is recorded as READY -> LOADING -> INITIALIZING -> READY; no versions are removed
+     * @param version Version string in format "level@version"
+     * @returns The version that was current before the switch
+     */
+    async checkoutVersion(version: string): Promise<{ previous: string; version: string }> {
+        return this.sm.run('CHECKOUT', async () => {
+            const previous = this.vt.getCurrentNode().version;
+            const node = this.vt.findNodeByVersion(version);
+            if (!node) {
+                throw new Error(`Version ${version} not found`);
             }
-            return latest;
-        }, null);
-    
-        return {
-            root,
-            maxLevel,
-            currentNode: (currentNode as string)
-        };
+
+            await this.sm.send({ type: 'CHECKOUT_VERSION', payload: { previous, version } }, node.hash);
+            this.vt.checkout(version);
+            await setPersonaHead(this.agentId, this.sessionId, version);
+            await this.sm.send({ type: 'PROCESS_CHECKOUT' });
+            await this.sm.send({ type: 'CHECKOUT_COMPLETE' });
+
+            return { previous, version };
+        }, this.policies.checkout);
     }
-    
+
     /**
      * Processes a chat message and returns an AI response
      * @param message User's input message
+     * @param conversation Thread to continue, stored or new; without one the message is answered on its own
      * @returns AI generated response
      */
-    async processMessage(message: string): Promise<string> {
+    async processMessage(message: string, conversation?: Conversation): Promise<string> {
         try {
-            // Get current persona state
-            const currentState = this.vt.getCurrentNode().data;
-            if (!currentState) {
-                throw new Error('No current persona state available');
-            }
+            // Replies must not race an evolution cycle moving the current node
+            return await this.sm.run('CHAT', () => this.reply(message, conversation), this.policies.chat);
+        } catch (error) {
+            console.error('Error processing message:', error);
+            throw new Error('Failed to process message');
+        }
+    }
+
+    /**
+     * Generates a chat reply from the current persona and the thread's history, and appends
+     * the exchange to the thread
+     * @param message User's input message
+     * @param thread Thread to continue, if any
+     * @returns AI generated response
+     */
+    private async reply(message: string, thread?: Conversation): Promise<string> {
+        // Get current persona state
+        const currentState = this.vt.getCurrentNode().data;
+        if (!currentState) {
+            throw new Error('No current persona state available');
+        }
 
-            // Build context from persona state
-            const context = this.buildPersonaContext(currentState);
+        // A new thread is not stored until its first exchange is
+        const conversation = thread ? (await getConversation(thread.id)) ?? thread : null;
+        const { summary, history } = conversation
+            ? await prepareConversationContext(conversation, this.conversation)
+            : { summary: null, history: [] };
 
-            // Generate LLM prompt
-            const systemPrompt = `You are an AI agent with the following traits and characteristics:
-${context}
+        // Build context from persona state
+        const context = this.buildPersonaContext(currentState);
 
+        // Generate LLM prompt
+        const systemPrompt = `You are an AI agent with the following traits and characteristics:
+${context}
+${summary ? `\nSummary of your earlier conversation with this user:\n${summary}\n` : ''}
 Respond to the user's message in a way that reflects your personality and knowledge.
 Keep responses concise and natural.`;
 
-            // Get response from LLM
-            const response = await prompt(systemPrompt, message);
+        // Get response from LLM, continuing the thread
+        const response = await converse(systemPrompt, history, message);
 
-            let text = response.content[0].type === 'text' ? response.content[0].text : ''
-            // Store interaction in memories if significant
-            await this.updateMemories(message, text);
-
-            return text;
-
-        } catch (error) {
-            console.error('Error processing message:', error);
-            throw new Error('Failed to process message');
+        let text = response.content[0].type === 'text' ? response.content[0].text : ''
+        if (conversation) {
+            await appendConversationExchange(conversation, message, text);
         }
+
+        return text;
     }
 
     /**
@@ -877,36 +2037,6 @@ Keep responses concise and natural.`;
             .map(section => `${section.title}:\n- ${section.items.join('\n- ')}`)
             .join('\n\n');
     }
-
-    /**
-     * Updates agent memories with new interaction
-     * @param userMessage User's input message
-     * @param agentResponse Agent's response
-     */
-    private async updateMemories(userMessage: string, agentResponse: string): Promise<void> {
-        const currentNode = this.vt.getCurrentNode();
-        if (!currentNode?.data) return;
-
-        // Add new memory
-        const newMemory = `User: ${userMessage}\nResponse: ${agentResponse}`;
-        const memories = [...(currentNode.data.memories || []), newMemory];
-
-        // Keep only last 10 memories
-        if (memories.length > 10) {
-            memories.shift();
-        }
-
-        // Update state with new memories
-        await updateAgentPersona(this.agentId, {
-            memories
-        });
-
-        // Update tree node data
-        currentNode.data = {
-            ...currentNode.data,
-            memories
-        };
-    }
 }
 
 /**
@@ -947,9 +2077,3 @@ const sampleInitialPersona: PersonaStateData = {
     prompt: `I am an Evolunary AI agent built for continuous learning and growth. I analyze, adapt, and evolve based on interaction. I aim to assist users effectively while embodying ethical values and thoughtful decision-making.`
 };
 
-// Key generation for Evolunary agents
-const { privateKey, publicKey } = generateKeyPairSync('rsa', {
-    modulusLength: 2048,
-    publicKeyEncoding: { type: 'spki', format: 'der' },
-    privateKeyEncoding: { type: 'pkcs8', format: 'der' }
-});
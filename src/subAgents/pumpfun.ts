@@ -9,7 +9,8 @@
  * Each launch is tracked through a state machine and versioned tree for full reproducibility.
  */
 
-import { StateMachine } from "../sm";
+import { EventTable, StateMachine } from "../sm";
+import { defineMachine } from "../../stateMachine/definition";
 import { TreeNodeJSON, TreeStateJSON, VersionedTree } from "../tree";
 import { prompt } from "../../utils/llm";
 import { generateKeyPairSync, randomUUID } from "crypto";
@@ -37,8 +38,99 @@ export type PumpFunState =
     | 'LOADING'
     | 'ERROR';
 
-export const pumpFunStates: PumpFunState[] = [ ... ]; // unchanged
-export const pumpFunTransitions: Record<PumpFunState, PumpFunState[]> = { ... }; // unchanged
+export const pumpFunStates: PumpFunState[] = [
+    'INITIALIZING',
+    'READY',
+    'GENERATING_METADATA',
+    'CREATING_ARTWORK',
+    'UPLOADING_ASSETS',
+    'PREPARING_LAUNCH',
+    'CREATING_TOKEN',
+    'CONFIGURING_POOL',
+    'MONITORING_LAUNCH',
+    'ANALYZING_PERFORMANCE',
+    'ADJUSTING_STRATEGY',
+    'SAVING',
+    'LOADING',
+    'ERROR'
+];
+
+export const pumpFunTransitions: Record<PumpFunState, PumpFunState[]> = {
+    'INITIALIZING': ['READY', 'LOADING', 'ERROR'],
+    'READY': [
+        'GENERATING_METADATA',
+        'MONITORING_LAUNCH',
+        'ANALYZING_PERFORMANCE',
+        'SAVING',
+        'LOADING',
+        'ERROR'
+    ],
+    'GENERATING_METADATA': ['CREATING_ARTWORK', 'ERROR'],
+    'CREATING_ARTWORK': ['UPLOADING_ASSETS', 'ERROR'],
+    'UPLOADING_ASSETS': ['PREPARING_LAUNCH', 'ERROR'],
+    'PREPARING_LAUNCH': ['CREATING_TOKEN', 'MONITORING_LAUNCH', 'ERROR'],
+    'CREATING_TOKEN': ['CONFIGURING_POOL', 'MONITORING_LAUNCH', 'ERROR'],
+    'CONFIGURING_POOL': ['MONITORING_LAUNCH', 'ERROR'],
+    'MONITORING_LAUNCH': ['ANALYZING_PERFORMANCE', 'ERROR'],
+    'ANALYZING_PERFORMANCE': ['ADJUSTING_STRATEGY', 'READY', 'ERROR'],
+    'ADJUSTING_STRATEGY': ['READY', 'ERROR'],
+    'SAVING': ['READY', 'ERROR'],
+    'LOADING': ['INITIALIZING', 'ERROR'],
+    'ERROR': ['INITIALIZING', 'READY']
+};
+
+/**
+ * Events accepted by the Pump.fun machine, with the payload each one carries
+ */
+export type PumpFunEvents = {
+    INITIALIZATION_COMPLETE: undefined;                         // INITIALIZING -> READY
+    START_LAUNCH: undefined;                                    // READY -> GENERATING_METADATA
+    METADATA_GENERATED: undefined;                              // GENERATING_METADATA -> CREATING_ARTWORK
+    ARTWORK_CREATED: { artworkPath: string };                   // CREATING_ARTWORK -> UPLOADING_ASSETS
+    ASSETS_UPLOADED: { metadataUri: string };                   // UPLOADING_ASSETS -> PREPARING_LAUNCH
+    TOKEN_CREATED: { mintAddress: string; signature: string };  // PREPARING_LAUNCH -> MONITORING_LAUNCH
+    UPDATE_METRICS: undefined;                                  // READY, MONITORING_LAUNCH -> ANALYZING_PERFORMANCE
+    ANALYSIS_COMPLETE: undefined;                               // ANALYZING_PERFORMANCE -> ADJUSTING_STRATEGY
+    STRATEGY_ADJUSTED: undefined;                               // ADJUSTING_STRATEGY -> READY
+    LAUNCH_FAILED: undefined;                                   // Any launch state -> ERROR
+};
+
+/**
+ * Context each Pump.fun state holds while active: the payload of the event that entered it
+ */
+export type PumpFunContexts = {
+    UPLOADING_ASSETS: PumpFunEvents['ARTWORK_CREATED'];
+    PREPARING_LAUNCH: PumpFunEvents['ASSETS_UPLOADED'];
+    MONITORING_LAUNCH: PumpFunEvents['TOKEN_CREATED'];
+};
+
+/**
+ * Maps (state, event) to the next state. Every entry follows an edge of pumpFunTransitions.
+ */
+export const pumpFunEvents: EventTable<PumpFunState, PumpFunEvents> = {
+    'INITIALIZING': { INITIALIZATION_COMPLETE: 'READY' },
+    'READY': { START_LAUNCH: 'GENERATING_METADATA', UPDATE_METRICS: 'ANALYZING_PERFORMANCE', LAUNCH_FAILED: 'ERROR' },
+    'GENERATING_METADATA': { METADATA_GENERATED: 'CREATING_ARTWORK', LAUNCH_FAILED: 'ERROR' },
+    'CREATING_ARTWORK': { ARTWORK_CREATED: 'UPLOADING_ASSETS', LAUNCH_FAILED: 'ERROR' },
+    'UPLOADING_ASSETS': { ASSETS_UPLOADED: 'PREPARING_LAUNCH', LAUNCH_FAILED: 'ERROR' },
+    'PREPARING_LAUNCH': { TOKEN_CREATED: 'MONITORING_LAUNCH', LAUNCH_FAILED: 'ERROR' },
+    'CREATING_TOKEN': { LAUNCH_FAILED: 'ERROR' },
+    'CONFIGURING_POOL': { LAUNCH_FAILED: 'ERROR' },
+    'MONITORING_LAUNCH': { UPDATE_METRICS: 'ANALYZING_PERFORMANCE', LAUNCH_FAILED: 'ERROR' },
+    'ANALYZING_PERFORMANCE': { ANALYSIS_COMPLETE: 'ADJUSTING_STRATEGY' },
+    'ADJUSTING_STRATEGY': { STRATEGY_ADJUSTED: 'READY' }
+};
+
+/**
+ * Validated definition of the Pump.fun state machine
+ */
+export const pumpFunDefinition = defineMachine<PumpFunState>({
+    name: 'pumpfun',
+    initial: 'INITIALIZING',
+    states: pumpFunStates,
+    transitions: pumpFunTransitions,
+    events: pumpFunEvents
+});
 
 // INTERFACES
 
@@ -80,7 +172,7 @@ export interface PumpFunStateData {
 // CORE AGENT CLASS
 
 export class PumpFunSubAgent {
-    private sm: StateMachine<PumpFunState>;
+    private sm: StateMachine<PumpFunState, PumpFunEvents, PumpFunContexts>;
     private vt: VersionedTree<PumpFunStateData>;
     private connection: Connection;
     private agentId: string;
@@ -96,13 +188,11 @@ export class PumpFunSubAgent {
         this.agentId = agentId;
         this.sessionId = sessionId;
         
-        this.sm = new StateMachine<PumpFunState>(
+        this.sm = StateMachine.fromDefinition<PumpFunState, PumpFunEvents, PumpFunContexts>(
+            pumpFunDefinition,
             agentId,
             sessionId,
-            privateKey,
-            pumpFunStates,
-            pumpFunTransitions,
-            'INITIALIZING'
+            privateKey
         );
 
         this.connection = new Connection(rpcEndpoint, 'confirmed');
@@ -131,7 +221,7 @@ export class PumpFunSubAgent {
         };
 
         this.vt = new VersionedTree<PumpFunStateData>({ initialData: initialState });
-        await this.sm.to('READY', 'INITIALIZATION_COMPLETE');
+        await this.sm.send({ type: 'INITIALIZATION_COMPLETE' });
     }
 
     /**
@@ -144,34 +234,34 @@ export class PumpFunSubAgent {
      */
     async startLaunch() {
         try {
-            await this.sm.to('GENERATING_METADATA', 'START_LAUNCH');
+            await this.sm.send({ type: 'START_LAUNCH' });
             const currentState = this.vt.getCurrentNode().data;
 
             const metadata = await this.generateTokenMetadata(currentState.tokenConfig);
 
-            await this.sm.to('CREATING_ARTWORK', 'METADATA_GENERATED');
+            await this.sm.send({ type: 'METADATA_GENERATED' });
             const artworkPath = await this.generateTokenArtwork(metadata);
             currentState.artworkPath = artworkPath;
 
-            await this.sm.to('UPLOADING_ASSETS', 'ARTWORK_CREATED');
+            await this.sm.send({ type: 'ARTWORK_CREATED', payload: { artworkPath } });
             const metadataUri = await this.uploadToIPFS(artworkPath, metadata);
             currentState.metadataUri = metadataUri;
 
-            await this.sm.to('PREPARING_LAUNCH', 'ASSETS_UPLOADED');
+            await this.sm.send({ type: 'ASSETS_UPLOADED', payload: { metadataUri } });
             const mintKeypair = Keypair.generate();
             const signature = await this.createToken(mintKeypair, metadataUri);
 
             currentState.mintAddress = mintKeypair.publicKey.toBase58();
             currentState.launchStatus = { launched: true, timestamp: Date.now(), signature };
 
-            await this.sm.to('MONITORING_LAUNCH', 'TOKEN_CREATED');
+            await this.sm.send({ type: 'TOKEN_CREATED', payload: { mintAddress: currentState.mintAddress, signature } });
             this.startMonitoring();
 
             return { success: true, mintAddress: currentState.mintAddress, signature };
 
         } catch (error) {
             console.error('Launch error:', error);
-            await this.sm.to('ERROR', 'LAUNCH_FAILED');
+            await this.sm.send({ type: 'LAUNCH_FAILED' });
             throw error;
         }
     }
@@ -263,7 +353,7 @@ export class PumpFunSubAgent {
                 holders: 0
             };
 
-            await this.sm.to('ANALYZING_PERFORMANCE', 'UPDATE_METRICS');
+            await this.sm.send({ type: 'UPDATE_METRICS' });
             await this.analyzePerformance();
         } catch (err) {
             console.error('Error updating metrics:', err);
@@ -278,10 +368,10 @@ export class PumpFunSubAgent {
         const response = await prompt("You are a crypto trading strategy expert.", promptText, 2000);
         const newStrategy = response.content[0].type === 'text' ? JSON.parse(response.content[0].text) : {};
 
-        await this.sm.to('ADJUSTING_STRATEGY', 'ANALYSIS_COMPLETE');
+        await this.sm.send({ type: 'ANALYSIS_COMPLETE' });
         currentState.strategy = newStrategy;
 
-        await this.sm.to('READY', 'STRATEGY_ADJUSTED');
+        await this.sm.send({ type: 'STRATEGY_ADJUSTED' });
     }
 
     stop() {
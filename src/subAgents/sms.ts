@@ -3,7 +3,9 @@
  * It handles SMS campaigns, automated responses, and engagement tracking.
  */
 
-import { StateMachine } from "../sm";
+import { EventTable, StateMachine } from "../sm";
+import { defineMachine } from "../../stateMachine/definition";
+import { DwellTimeouts } from "../../stateMachine/watchdog";
 import { TreeNodeJSON, TreeStateJSON, VersionedTree } from "../tree";
 import { prompt } from "../../utils/llm";
 import { randomUUID } from "crypto";
@@ -76,6 +78,94 @@ export const smsTransitions: Record<SMSState, SMSState[]> = {
     'ERROR': ['INITIALIZING', 'READY']
 };
 
+/**
+ * Maximum time in ms each working state may stay active before the watchdog moves the SMS machine to ERROR
+ */
+export const smsTimeouts: DwellTimeouts<SMSState> = {
+    'COMPOSING_MESSAGE': 120000,
+    'VALIDATING_NUMBERS': 60000,
+    'PREPARING_CAMPAIGN': 60000,
+    'SENDING_MESSAGES': 600000,
+    'PROCESSING_RESPONSES': 120000,
+    'HANDLING_OPT_OUTS': 60000,
+    'ANALYZING_PERFORMANCE': 120000,
+    'ADJUSTING_STRATEGY': 120000,
+    'SAVING': 30000,
+    'LOADING': 30000
+};
+
+/**
+ * Events accepted by the SMS machine, with the payload each one carries
+ */
+export type SMSEvents = {
+    INITIALIZATION_COMPLETE: undefined;                           // INITIALIZING -> READY
+    START_CAMPAIGN: { name: string };                             // READY -> COMPOSING_MESSAGE
+    MESSAGE_COMPOSED: undefined;                                  // COMPOSING_MESSAGE -> VALIDATING_NUMBERS
+    NUMBERS_VALIDATED: { validNumbers: number };                  // VALIDATING_NUMBERS -> PREPARING_CAMPAIGN
+    CAMPAIGN_PREPARED: { campaignId: string };                    // PREPARING_CAMPAIGN -> SENDING_MESSAGES
+    MESSAGES_SENT: { campaignId: string };                        // SENDING_MESSAGES -> MONITORING_DELIVERY
+    CAMPAIGN_CREATION_FAILED: undefined;                          // Any campaign state -> ERROR
+    NEW_RESPONSE: { from: string };                               // READY, MONITORING_DELIVERY -> PROCESSING_RESPONSES
+    OPT_OUT_REQUESTED: { phoneNumber: string };                   // PROCESSING_RESPONSES -> HANDLING_OPT_OUTS
+    OPT_OUT_PROCESSED: undefined;                                 // HANDLING_OPT_OUTS -> READY
+    RESPONSE_PROCESSED: undefined;                                // PROCESSING_RESPONSES -> MONITORING_DELIVERY
+    RESPONSE_PROCESSING_FAILED: undefined;                        // PROCESSING_RESPONSES, HANDLING_OPT_OUTS -> ERROR
+    DELIVERY_MONITORED: undefined;                                // MONITORING_DELIVERY -> ANALYZING_PERFORMANCE
+    MONITORING_FAILED: undefined;                                 // Any monitoring state -> ERROR
+    ANALYSIS_COMPLETE: undefined;                                 // ANALYZING_PERFORMANCE -> ADJUSTING_STRATEGY
+    STRATEGY_ADJUSTED: undefined;                                 // ADJUSTING_STRATEGY -> READY
+};
+
+/**
+ * Context each SMS state holds while active: the payload of the event that entered it
+ */
+export type SMSContexts = {
+    COMPOSING_MESSAGE: SMSEvents['START_CAMPAIGN'];
+    PREPARING_CAMPAIGN: SMSEvents['NUMBERS_VALIDATED'];
+    SENDING_MESSAGES: SMSEvents['CAMPAIGN_PREPARED'];
+    MONITORING_DELIVERY: SMSEvents['MESSAGES_SENT'] | SMSEvents['RESPONSE_PROCESSED'];
+    PROCESSING_RESPONSES: SMSEvents['NEW_RESPONSE'];
+    HANDLING_OPT_OUTS: SMSEvents['OPT_OUT_REQUESTED'];
+};
+
+/**
+ * Maps (state, event) to the next state. Every entry follows an edge of smsTransitions.
+ */
+export const smsEvents: EventTable<SMSState, SMSEvents> = {
+    'INITIALIZING': { INITIALIZATION_COMPLETE: 'READY' },
+    'READY': { START_CAMPAIGN: 'COMPOSING_MESSAGE', NEW_RESPONSE: 'PROCESSING_RESPONSES', CAMPAIGN_CREATION_FAILED: 'ERROR' },
+    'COMPOSING_MESSAGE': { MESSAGE_COMPOSED: 'VALIDATING_NUMBERS', CAMPAIGN_CREATION_FAILED: 'ERROR' },
+    'VALIDATING_NUMBERS': { NUMBERS_VALIDATED: 'PREPARING_CAMPAIGN', CAMPAIGN_CREATION_FAILED: 'ERROR' },
+    'PREPARING_CAMPAIGN': { CAMPAIGN_PREPARED: 'SENDING_MESSAGES', CAMPAIGN_CREATION_FAILED: 'ERROR' },
+    'SENDING_MESSAGES': { MESSAGES_SENT: 'MONITORING_DELIVERY', CAMPAIGN_CREATION_FAILED: 'ERROR' },
+    'MONITORING_DELIVERY': {
+        NEW_RESPONSE: 'PROCESSING_RESPONSES',
+        DELIVERY_MONITORED: 'ANALYZING_PERFORMANCE',
+        CAMPAIGN_CREATION_FAILED: 'ERROR',
+        MONITORING_FAILED: 'ERROR'
+    },
+    'PROCESSING_RESPONSES': {
+        OPT_OUT_REQUESTED: 'HANDLING_OPT_OUTS',
+        RESPONSE_PROCESSED: 'MONITORING_DELIVERY',
+        RESPONSE_PROCESSING_FAILED: 'ERROR'
+    },
+    'HANDLING_OPT_OUTS': { OPT_OUT_PROCESSED: 'READY', RESPONSE_PROCESSING_FAILED: 'ERROR' },
+    'ANALYZING_PERFORMANCE': { ANALYSIS_COMPLETE: 'ADJUSTING_STRATEGY', MONITORING_FAILED: 'ERROR' },
+    'ADJUSTING_STRATEGY': { STRATEGY_ADJUSTED: 'READY', MONITORING_FAILED: 'ERROR' }
+};
+
+/**
+ * Validated definition of the SMS state machine
+ */
+export const smsDefinition = defineMachine<SMSState>({
+    name: 'sms',
+    initial: 'INITIALIZING',
+    states: smsStates,
+    transitions: smsTransitions,
+    timeouts: smsTimeouts,
+    events: smsEvents
+});
+
 /**
  * Interface for SMS message content
  */
@@ -174,7 +264,7 @@ export interface SMSStateData {
  * Core class implementing SMS messaging management
  */
 export class SMSSubAgent {
-    private sm: StateMachine<SMSState>;
+    private sm: StateMachine<SMSState, SMSEvents, SMSContexts>;
     private vt: VersionedTree<SMSStateData>;
     private agentId: string;
     private sessionId: string;
@@ -188,13 +278,11 @@ export class SMSSubAgent {
         this.agentId = agentId;
         this.sessionId = sessionId;
         
-        this.sm = new StateMachine<SMSState>(
+        this.sm = StateMachine.fromDefinition<SMSState, SMSEvents, SMSContexts>(
+            smsDefinition,
             agentId,
             sessionId,
-            privateKey,
-            smsStates,
-            smsTransitions,
-            'INITIALIZING'
+            privateKey
         );
     }
 
@@ -249,7 +337,7 @@ export class SMSSubAgent {
         };
 
         this.vt = new VersionedTree<SMSStateData>({ initialData: initialState });
-        await this.sm.to('READY', 'INITIALIZATION_COMPLETE');
+        await this.sm.send({ type: 'INITIALIZATION_COMPLETE' });
     }
 
     /**
@@ -261,17 +349,17 @@ export class SMSSubAgent {
         targetNumbers: string[];
     }) {
         try {
-            await this.sm.to('COMPOSING_MESSAGE', 'START_CAMPAIGN');
+            await this.sm.send({ type: 'START_CAMPAIGN', payload: { name: campaignData.name } });
             
             // Compose message
             const message = await this.composeMessage(campaignData.content);
             
-            await this.sm.to('VALIDATING_NUMBERS', 'MESSAGE_COMPOSED');
+            await this.sm.send({ type: 'MESSAGE_COMPOSED' });
             
             // Validate phone numbers
             const validNumbers = await this.validateNumbers(campaignData.targetNumbers);
             
-            await this.sm.to('PREPARING_CAMPAIGN', 'NUMBERS_VALIDATED');
+            await this.sm.send({ type: 'NUMBERS_VALIDATED', payload: { validNumbers: validNumbers.length } });
             
             // Create campaign
             const campaignId = randomUUID();
@@ -294,18 +382,18 @@ export class SMSSubAgent {
             
             this.vt.getCurrentNode().data.campaigns[campaignId] = campaign;
             
-            await this.sm.to('SENDING_MESSAGES', 'CAMPAIGN_PREPARED');
+            await this.sm.send({ type: 'CAMPAIGN_PREPARED', payload: { campaignId } });
             
             // Send messages
             await this.sendCampaign(campaignId);
             
-            await this.sm.to('MONITORING_DELIVERY', 'MESSAGES_SENT');
+            await this.sm.send({ type: 'MESSAGES_SENT', payload: { campaignId } });
             
             return campaignId;
             
         } catch (error) {
             console.error('Campaign creation error:', error);
-            await this.sm.to('ERROR', 'CAMPAIGN_CREATION_FAILED');
+            await this.sm.send({ type: 'CAMPAIGN_CREATION_FAILED' });
             throw error;
         }
     }
@@ -355,13 +443,13 @@ export class SMSSubAgent {
      */
     private async processResponse(from: string, message: string) {
         try {
-            await this.sm.to('PROCESSING_RESPONSES', 'NEW_RESPONSE');
+            await this.sm.send({ type: 'NEW_RESPONSE', payload: { from } });
             
             const currentState = this.vt.getCurrentNode().data;
             
             // Check for opt-out keywords
             if (currentState.compliance.optOutKeywords.includes(message.toUpperCase())) {
-                await this.sm.to('HANDLING_OPT_OUTS', 'OPT_OUT_REQUESTED');
+                await this.sm.send({ type: 'OPT_OUT_REQUESTED', payload: { phoneNumber: from } });
                 await this.handleOptOut(from);
                 return;
             }
@@ -376,11 +464,11 @@ export class SMSSubAgent {
                 autoResponse.usageCount++;
             }
             
-            await this.sm.to('READY', 'RESPONSE_PROCESSED');
+            await this.sm.send({ type: 'RESPONSE_PROCESSED' });
             
         } catch (error) {
             console.error('Response processing error:', error);
-            await this.sm.to('ERROR', 'RESPONSE_PROCESSING_FAILED');
+            await this.sm.send({ type: 'RESPONSE_PROCESSING_FAILED' });
         }
     }
 
@@ -399,7 +487,7 @@ export class SMSSubAgent {
             shortCode: 'OPT_OUT_CONFIRM'
         }, phoneNumber);
         
-        await this.sm.to('READY', 'OPT_OUT_PROCESSED');
+        await this.sm.send({ type: 'OPT_OUT_PROCESSED' });
     }
 
     /**
@@ -429,16 +517,15 @@ export class SMSSubAgent {
      */
     private async monitorDelivery() {
         try {
-            await this.sm.to('MONITORING_DELIVERY', 'START_MONITORING');
-            
+            // Campaigns end in MONITORING_DELIVERY, so monitoring starts from there
             // Implement delivery status checking logic here
             
-            await this.sm.to('ANALYZING_PERFORMANCE', 'DELIVERY_MONITORED');
+            await this.sm.send({ type: 'DELIVERY_MONITORED' });
             await this.analyzePerformance();
             
         } catch (error) {
             console.error('Delivery monitoring error:', error);
-            await this.sm.to('ERROR', 'MONITORING_FAILED');
+            await this.sm.send({ type: 'MONITORING_FAILED' });
         }
     }
 
@@ -457,10 +544,10 @@ export class SMSSubAgent {
         const response = await prompt("You are an SMS marketing strategist.", analysisPrompt, 2000);
         const newStrategy = response.content[0].type === 'text' ? JSON.parse(response.content[0].text) : {};
         
-        await this.sm.to('ADJUSTING_STRATEGY', 'ANALYSIS_COMPLETE');
+        await this.sm.send({ type: 'ANALYSIS_COMPLETE' });
         currentState.strategy = newStrategy;
         
-        await this.sm.to('READY', 'STRATEGY_ADJUSTED');
+        await this.sm.send({ type: 'STRATEGY_ADJUSTED' });
     }
 
     /**
@@ -471,5 +558,6 @@ export class SMSSubAgent {
             clearInterval(this.monitoringTimer);
             this.monitoringTimer = null;
         }
+        this.sm.dispose();
     }
 } 
\ No newline at end of file
@@ -3,7 +3,8 @@
  * It handles channel/group management, messaging, and community engagement.
  */
 
-import { StateMachine } from "../sm";
+import { EventTable, StateMachine } from "../sm";
+import { defineMachine } from "../../stateMachine/definition";
 import { TreeNodeJSON, TreeStateJSON, VersionedTree } from "../tree";
 import { prompt } from "../../utils/llm";
 import { randomUUID } from "crypto";
@@ -20,7 +21,9 @@ export type TelegramState =
     | 'GENERATING_CONTENT'     // Creating message content
     | 'PREPARING_BROADCAST'    // Preparing broadcast messages
     | 'SENDING_MESSAGE'        // Sending messages
-    | 'MONITORING_CHAT'        // Monitoring chat activity
+    | 'MONITORING_STOPPED'     // Chat monitoring is not running
+    | 'MONITORING_CHAT'        // Monitoring chat activity (compound)
+    | 'WATCHING'               // Watching for activity while monitoring
     | 'RESPONDING'             // Responding to messages
     | 'MODERATING'            // Moderating chat/channel
     | 'ANALYZING_PERFORMANCE' // Analyzing engagement
@@ -39,7 +42,9 @@ export const telegramStates: TelegramState[] = [
     'GENERATING_CONTENT',
     'PREPARING_BROADCAST',
     'SENDING_MESSAGE',
+    'MONITORING_STOPPED',
     'MONITORING_CHAT',
+    'WATCHING',
     'RESPONDING',
     'MODERATING',
     'ANALYZING_PERFORMANCE',
@@ -51,24 +56,26 @@ export const telegramStates: TelegramState[] = [
 
 /**
  * Defines valid state transitions for the Telegram state machine
+ * Monitoring states form their own region, so a broadcast can be created while the chat is monitored
  */
 export const telegramTransitions: Record<TelegramState, TelegramState[]> = {
     'INITIALIZING': ['READY', 'LOADING', 'ERROR'],
     'READY': [
         'ANALYZING_CHAT',
         'GENERATING_CONTENT',
-        'MONITORING_CHAT',
-        'MODERATING',
+        'ANALYZING_PERFORMANCE',
         'SAVING',
         'ERROR'
     ],
-    'ANALYZING_CHAT': ['GENERATING_CONTENT', 'MODERATING', 'ERROR'],
+    'ANALYZING_CHAT': ['GENERATING_CONTENT', 'ERROR'],
     'GENERATING_CONTENT': ['PREPARING_BROADCAST', 'SENDING_MESSAGE', 'ERROR'],
     'PREPARING_BROADCAST': ['SENDING_MESSAGE', 'ERROR'],
-    'SENDING_MESSAGE': ['MONITORING_CHAT', 'ERROR'],
-    'MONITORING_CHAT': ['RESPONDING', 'ANALYZING_PERFORMANCE', 'MODERATING', 'ERROR'],
-    'RESPONDING': ['MONITORING_CHAT', 'ERROR'],
-    'MODERATING': ['MONITORING_CHAT', 'ERROR'],
+    'SENDING_MESSAGE': ['READY', 'ERROR'],
+    'MONITORING_STOPPED': ['MONITORING_CHAT'],
+    'MONITORING_CHAT': ['MONITORING_STOPPED'],
+    'WATCHING': ['RESPONDING', 'MODERATING'],
+    'RESPONDING': ['WATCHING'],
+    'MODERATING': ['WATCHING'],
     'ANALYZING_PERFORMANCE': ['ADJUSTING_STRATEGY', 'READY', 'ERROR'],
     'ADJUSTING_STRATEGY': ['READY', 'ERROR'],
     'SAVING': ['READY', 'ERROR'],
@@ -76,6 +83,90 @@ export const telegramTransitions: Record<TelegramState, TelegramState[]> = {
     'ERROR': ['INITIALIZING', 'READY']
 };
 
+/**
+ * Events accepted by the Telegram machine, with the payload each one carries
+ */
+export type TelegramEvents = {
+    INITIALIZATION_COMPLETE: undefined;         // INITIALIZING -> READY
+    START_CONTENT_CREATION: undefined;          // READY -> ANALYZING_CHAT
+    CHAT_ANALYZED: undefined;                   // ANALYZING_CHAT -> GENERATING_CONTENT
+    CONTENT_GENERATED: undefined;               // GENERATING_CONTENT -> PREPARING_BROADCAST
+    BROADCAST_PREPARED: undefined;              // PREPARING_BROADCAST -> SENDING_MESSAGE
+    MESSAGE_SENT: { messageId: string };        // SENDING_MESSAGE -> READY
+    CONTENT_CREATION_FAILED: undefined;         // Any content state -> ERROR
+    START_DAD_MESSAGE: { prompt: string };      // READY -> GENERATING_CONTENT
+    DAD_MESSAGE_READY: undefined;               // GENERATING_CONTENT -> PREPARING_BROADCAST
+    DAD_MESSAGE_SENT: undefined;                // SENDING_MESSAGE -> READY
+    DAD_MESSAGE_FAILED: undefined;              // Any content state -> ERROR
+    START_MONITORING: undefined;                // MONITORING_STOPPED -> MONITORING_CHAT
+    MODERATION_NEEDED: undefined;               // WATCHING -> MODERATING
+    MODERATION_COMPLETE: undefined;             // MODERATING -> WATCHING
+    MONITORING_FAILED: undefined;               // MONITORING_CHAT -> MONITORING_STOPPED
+    MONITORING_COMPLETE: undefined;             // READY -> ANALYZING_PERFORMANCE
+    ANALYSIS_COMPLETE: undefined;               // ANALYZING_PERFORMANCE -> ADJUSTING_STRATEGY
+    STRATEGY_ADJUSTED: undefined;               // ADJUSTING_STRATEGY -> READY
+    ANALYSIS_FAILED: undefined;                 // Any analysis state -> ERROR
+};
+
+/**
+ * Context each Telegram state holds while active: the payload of the event that entered it
+ */
+export type TelegramContexts = {
+    GENERATING_CONTENT: TelegramEvents['START_DAD_MESSAGE'];
+};
+
+/** Failure events every content state accepts */
+const contentFailures = { CONTENT_CREATION_FAILED: 'ERROR', DAD_MESSAGE_FAILED: 'ERROR' } as const;
+
+/**
+ * Maps (state, event) to the next state. Every entry follows an edge of telegramTransitions.
+ * Monitoring events are declared on the monitoring region's states.
+ */
+export const telegramEvents: EventTable<TelegramState, TelegramEvents> = {
+    'INITIALIZING': { INITIALIZATION_COMPLETE: 'READY' },
+    'READY': {
+        START_CONTENT_CREATION: 'ANALYZING_CHAT',
+        START_DAD_MESSAGE: 'GENERATING_CONTENT',
+        MONITORING_COMPLETE: 'ANALYZING_PERFORMANCE',
+        ...contentFailures
+    },
+    'ANALYZING_CHAT': { CHAT_ANALYZED: 'GENERATING_CONTENT', ...contentFailures },
+    'GENERATING_CONTENT': { CONTENT_GENERATED: 'PREPARING_BROADCAST', DAD_MESSAGE_READY: 'PREPARING_BROADCAST', ...contentFailures },
+    'PREPARING_BROADCAST': { BROADCAST_PREPARED: 'SENDING_MESSAGE', ...contentFailures },
+    'SENDING_MESSAGE': { MESSAGE_SENT: 'READY', DAD_MESSAGE_SENT: 'READY', ...contentFailures },
+    'MONITORING_STOPPED': { START_MONITORING: 'MONITORING_CHAT' },
+    'MONITORING_CHAT': { MONITORING_FAILED: 'MONITORING_STOPPED' },
+    'WATCHING': { MODERATION_NEEDED: 'MODERATING' },
+    'MODERATING': { MODERATION_COMPLETE: 'WATCHING' },
+    'ANALYZING_PERFORMANCE': { ANALYSIS_COMPLETE: 'ADJUSTING_STRATEGY', ANALYSIS_FAILED: 'ERROR' },
+    'ADJUSTING_STRATEGY': { STRATEGY_ADJUSTED: 'READY', ANALYSIS_FAILED: 'ERROR' }
+};
+
+/**
+ * Validated definition of the Telegram state machine
+ */
+export const telegramDefinition = defineMachine<TelegramState>({
+    name: 'telegram',
+    initial: 'INITIALIZING',
+    states: telegramStates,
+    transitions: telegramTransitions,
+    parents: {
+        'WATCHING': 'MONITORING_CHAT',
+        'RESPONDING': 'MONITORING_CHAT',
+        'MODERATING': 'MONITORING_CHAT'
+    },
+    initialChildren: {
+        'MONITORING_CHAT': 'WATCHING'
+    },
+    regions: {
+        monitoring: {
+            initial: 'MONITORING_STOPPED',
+            states: ['MONITORING_STOPPED', 'MONITORING_CHAT', 'WATCHING', 'RESPONDING', 'MODERATING']
+        }
+    },
+    events: telegramEvents
+});
+
 /**
  * Interface for Telegram message content
  */
@@ -156,7 +247,7 @@ export interface TelegramStateData {
  * Core class implementing Telegram interaction management
  */
 export class TelegramSubAgent {
-    private sm: StateMachine<TelegramState>;
+    private sm: StateMachine<TelegramState, TelegramEvents, TelegramContexts>;
     private vt: VersionedTree<TelegramStateData>;
     private agentId: string;
     private sessionId: string;
@@ -170,13 +261,11 @@ export class TelegramSubAgent {
         this.agentId = agentId;
         this.sessionId = sessionId;
         
-        this.sm = new StateMachine<TelegramState>(
+        this.sm = StateMachine.fromDefinition<TelegramState, TelegramEvents, TelegramContexts>(
+            telegramDefinition,
             agentId,
             sessionId,
-            privateKey,
-            telegramStates,
-            telegramTransitions,
-            'INITIALIZING'
+            privateKey
         );
     }
 
@@ -220,7 +309,7 @@ export class TelegramSubAgent {
         };
 
         this.vt = new VersionedTree<TelegramStateData>({ initialData: initialState });
-        await this.sm.to('READY', 'INITIALIZATION_COMPLETE');
+        await this.sm.send({ type: 'INITIALIZATION_COMPLETE' });
     }
 
     /**
@@ -228,33 +317,38 @@ export class TelegramSubAgent {
      */
     async createContent() {
         try {
-            await this.sm.to('ANALYZING_CHAT', 'START_CONTENT_CREATION');
+            await this.sm.send({ type: 'START_CONTENT_CREATION' });
             
             // Analyze chat activity
             const chatAnalysis = await this.analyzeChat();
             
-            await this.sm.to('GENERATING_CONTENT', 'CHAT_ANALYZED');
+            await this.sm.send({ type: 'CHAT_ANALYZED' });
             
             // Generate content based on analysis
             const content = await this.generateContent(chatAnalysis);
             
-            await this.sm.to('PREPARING_BROADCAST', 'CONTENT_GENERATED');
+            await this.sm.send({ type: 'CONTENT_GENERATED' });
             
             // Prepare broadcast if needed
             const broadcastContent = await this.prepareBroadcast(content);
             
-            await this.sm.to('SENDING_MESSAGE', 'BROADCAST_PREPARED');
+            await this.sm.send({ type: 'BROADCAST_PREPARED' });
             
             // Send the message
             const messageId = await this.sendMessage(broadcastContent);
             
-            await this.sm.to('MONITORING_CHAT', 'MESSAGE_SENT');
+            await this.sm.send({ type: 'MESSAGE_SENT', payload: { messageId } });
+
+            // Monitoring runs in its own region alongside content work
+            if (!this.sm.isActive('MONITORING_CHAT')) {
+                await this.sm.send({ type: 'START_MONITORING' });
+            }
             
             return messageId;
             
         } catch (error) {
             console.error('Content creation error:', error);
-            await this.sm.to('ERROR', 'CONTENT_CREATION_FAILED');
+            await this.sm.send({ type: 'CONTENT_CREATION_FAILED' });
             throw error;
         }
     }
@@ -333,22 +427,34 @@ export class TelegramSubAgent {
         const currentState = this.vt.getCurrentNode().data;
         
         try {
-            await this.sm.to('MONITORING_CHAT', 'START_MONITORING');
+            if (!this.sm.isActive('MONITORING_CHAT')) {
+                await this.sm.send({ type: 'START_MONITORING' });
+            }
             
             // Check for messages needing moderation
             const needsModeration = await this.checkModeration();
             
             if (needsModeration) {
-                await this.sm.to('MODERATING', 'MODERATION_NEEDED');
+                await this.sm.send({ type: 'MODERATION_NEEDED' });
                 await this.moderate();
             }
-            
-            await this.sm.to('ANALYZING_PERFORMANCE', 'MONITORING_COMPLETE');
-            await this.analyzePerformance();
-            
         } catch (error) {
             console.error('Monitoring error:', error);
-            await this.sm.to('ERROR', 'MONITORING_FAILED');
+            await this.sm.send({ type: 'MONITORING_FAILED' });
+            return;
+        }
+
+        // Performance analysis shares the main region with content work, so skip it while that is busy
+        if (this.sm.getCurrentState() !== 'READY') {
+            return;
+        }
+
+        try {
+            await this.sm.send({ type: 'MONITORING_COMPLETE' });
+            await this.analyzePerformance();
+        } catch (error) {
+            console.error('Performance analysis error:', error);
+            await this.sm.send({ type: 'ANALYSIS_FAILED' });
         }
     }
 
@@ -365,7 +471,7 @@ export class TelegramSubAgent {
      */
     private async moderate() {
         // Implement moderation actions
-        await this.sm.to('MONITORING_CHAT', 'MODERATION_COMPLETE');
+        await this.sm.send({ type: 'MODERATION_COMPLETE' });
     }
 
     /**
@@ -383,10 +489,10 @@ export class TelegramSubAgent {
         const response = await prompt("You are a community strategy expert.", analysisPrompt, 2000);
         const newStrategy = response.content[0].type === 'text' ? JSON.parse(response.content[0].text) : {};
         
-        await this.sm.to('ADJUSTING_STRATEGY', 'ANALYSIS_COMPLETE');
+        await this.sm.send({ type: 'ANALYSIS_COMPLETE' });
         currentState.strategy = newStrategy;
         
-        await this.sm.to('READY', 'STRATEGY_ADJUSTED');
+        await this.sm.send({ type: 'STRATEGY_ADJUSTED' });
     }
 
     /**
@@ -409,7 +515,7 @@ export class DadSubAgent extends TelegramSubAgent {
      */
     async generateDadMessage(promptText: string = "dad joke or advice") {
         try {
-            await this.sm.to('GENERATING_CONTENT', 'START_DAD_MESSAGE');
+            await this.sm.send({ type: 'START_DAD_MESSAGE', payload: { prompt: promptText } });
 
             const dadPrompt = `
 You are "Dad", an AI that responds in the style of a dad.
@@ -429,14 +535,15 @@ Return ONLY the dad joke or advice as plain text.
                 silent: false
             };
 
-            await this.sm.to('PREPARING_BROADCAST', 'DAD_MESSAGE_READY');
+            await this.sm.send({ type: 'DAD_MESSAGE_READY' });
+            await this.sm.send({ type: 'BROADCAST_PREPARED' });
             await this.sendMessage(dadMessage);
-            await this.sm.to('MONITORING_CHAT', 'DAD_MESSAGE_SENT');
+            await this.sm.send({ type: 'DAD_MESSAGE_SENT' });
 
             return dadMessage.text;
         } catch (error) {
             console.error('[DadSubAgent] Error generating dad message:', error);
-            await this.sm.to('ERROR', 'DAD_MESSAGE_FAILED');
+            await this.sm.send({ type: 'DAD_MESSAGE_FAILED' });
             throw error;
         }
     }
@@ -3,7 +3,8 @@
  * It handles posting, engagement monitoring, and strategy optimization.
  */
 
-import { StateMachine } from "../sm";
+import { EventTable, MachineEvent, StateMachine } from "../sm";
+import { defineMachine } from "../../stateMachine/definition";
 import { TreeNodeJSON, TreeStateJSON, VersionedTree } from "../tree";
 import { prompt } from "../../utils/llm";
 import { randomUUID } from "crypto";
@@ -73,6 +74,58 @@ export const twitterTransitions: Record<TwitterState, TwitterState[]> = {
     'ERROR': ['INITIALIZING', 'READY']
 };
 
+/**
+ * Events accepted by the Twitter machine, with the payload each one carries
+ */
+export type TwitterEvents = {
+    INITIALIZATION_COMPLETE: undefined;                 // INITIALIZING -> READY
+    START_CONTENT_CREATION: undefined;                  // READY -> ANALYZING_TRENDS
+    TRENDS_ANALYZED: undefined;                         // ANALYZING_TRENDS -> GENERATING_CONTENT
+    CONTENT_GENERATED: undefined;                       // GENERATING_CONTENT -> SCHEDULING_POSTS
+    CONTENT_SCHEDULED: { scheduledTime: string };       // SCHEDULING_POSTS -> POSTING
+    CONTENT_POSTED: { tweetId: string };                // POSTING -> MONITORING_ENGAGEMENT
+    CONTENT_CREATION_FAILED: undefined;                 // Any content state -> ERROR
+    START_MONITORING: undefined;                        // READY -> MONITORING_ENGAGEMENT
+    ENGAGEMENT_MONITORED: undefined;                    // MONITORING_ENGAGEMENT -> ANALYZING_PERFORMANCE
+    ANALYSIS_COMPLETE: undefined;                       // ANALYZING_PERFORMANCE -> ADJUSTING_STRATEGY
+    STRATEGY_ADJUSTED: undefined;                       // ADJUSTING_STRATEGY -> READY
+    MONITORING_FAILED: undefined;                       // Any monitoring state -> ERROR
+};
+
+/**
+ * Context each Twitter state holds while active: the payload of the event that entered it
+ */
+export type TwitterContexts = {
+    POSTING: TwitterEvents['CONTENT_SCHEDULED'];
+    MONITORING_ENGAGEMENT: TwitterEvents['CONTENT_POSTED'] | TwitterEvents['START_MONITORING'];
+};
+
+/**
+ * Maps (state, event) to the next state. Every entry follows an edge of twitterTransitions.
+ */
+export const twitterEvents: EventTable<TwitterState, TwitterEvents> = {
+    'INITIALIZING': { INITIALIZATION_COMPLETE: 'READY' },
+    'READY': { START_CONTENT_CREATION: 'ANALYZING_TRENDS', START_MONITORING: 'MONITORING_ENGAGEMENT', CONTENT_CREATION_FAILED: 'ERROR', MONITORING_FAILED: 'ERROR' },
+    'ANALYZING_TRENDS': { TRENDS_ANALYZED: 'GENERATING_CONTENT', CONTENT_CREATION_FAILED: 'ERROR' },
+    'GENERATING_CONTENT': { CONTENT_GENERATED: 'SCHEDULING_POSTS', CONTENT_CREATION_FAILED: 'ERROR' },
+    'SCHEDULING_POSTS': { CONTENT_SCHEDULED: 'POSTING', CONTENT_CREATION_FAILED: 'ERROR' },
+    'POSTING': { CONTENT_POSTED: 'MONITORING_ENGAGEMENT', CONTENT_CREATION_FAILED: 'ERROR' },
+    'MONITORING_ENGAGEMENT': { ENGAGEMENT_MONITORED: 'ANALYZING_PERFORMANCE', CONTENT_CREATION_FAILED: 'ERROR', MONITORING_FAILED: 'ERROR' },
+    'ANALYZING_PERFORMANCE': { ANALYSIS_COMPLETE: 'ADJUSTING_STRATEGY', MONITORING_FAILED: 'ERROR' },
+    'ADJUSTING_STRATEGY': { STRATEGY_ADJUSTED: 'READY', MONITORING_FAILED: 'ERROR' }
+};
+
+/**
+ * Validated definition of the Twitter state machine
+ */
+export const twitterDefinition = defineMachine<TwitterState>({
+    name: 'twitter',
+    initial: 'INITIALIZING',
+    states: twitterStates,
+    transitions: twitterTransitions,
+    events: twitterEvents
+});
+
 /**
  * Interface for Twitter content
  */
@@ -127,7 +180,7 @@ export interface TwitterStateData {
  * Core class implementing Twitter interaction management
  */
 export class TwitterSubAgent {
-    private sm: StateMachine<TwitterState>;
+    private sm: StateMachine<TwitterState, TwitterEvents, TwitterContexts>;
     private vt: VersionedTree<TwitterStateData>;
     private agentId: string;
     private sessionId: string;
@@ -150,13 +203,11 @@ export class TwitterSubAgent {
         this.agentId = agentId;
         this.sessionId = sessionId;
 
-        this.sm = new StateMachine<TwitterState>(
+        this.sm = StateMachine.fromDefinition<TwitterState, TwitterEvents, TwitterContexts>(
+            twitterDefinition,
             agentId,
             sessionId,
-            privateKey,
-            twitterStates,
-            twitterTransitions,
-            'INITIALIZING'
+            privateKey
         );
 
         this.logStatus("BOOT", "Initializing Vanta AI agent");
@@ -177,14 +228,14 @@ export class TwitterSubAgent {
         console.log(chalk.gray(`[heartbeat] Vanta ping @ ${timestamp}`));
     }
 
-    private async transition(to: TwitterState, reason: string) {
-        const from = this.sm.getState();
-        await this.sm.to(to, reason);
+    private async transition(event: MachineEvent<TwitterEvents>) {
+        const from = this.sm.getCurrentState();
+        await this.sm.send(event);
         if (this.isTesting) {
             this.testDiagnostics.stateTransitions.push({
                 from,
-                to,
-                reason,
+                to: this.sm.getCurrentState(),
+                reason: event.type,
                 timestamp: new Date().toISOString()
             });
         }
@@ -217,7 +268,7 @@ export class TwitterSubAgent {
 
         this.vt = new VersionedTree<TwitterStateData>({ initialData: initialState });
 
-        await this.transition('READY', 'INITIALIZATION_COMPLETE');
+        await this.transition({ type: 'INITIALIZATION_COMPLETE' });
 
         this.logStatus("READY", "System is prepared for content ops");
         this.reportHeartbeat();
@@ -225,24 +276,24 @@ export class TwitterSubAgent {
 
     async createContent() {
         try {
-            await this.transition('ANALYZING_TRENDS', 'START_CONTENT_CREATION');
+            await this.transition({ type: 'START_CONTENT_CREATION' });
 
             const trends = await this.analyzeTrends();
-            await this.transition('GENERATING_CONTENT', 'TRENDS_ANALYZED');
+            await this.transition({ type: 'TRENDS_ANALYZED' });
 
             const content = await this.generateContent(trends);
-            await this.transition('SCHEDULING_POSTS', 'CONTENT_GENERATED');
+            await this.transition({ type: 'CONTENT_GENERATED' });
 
             const schedule = await this.scheduleContent(content);
-            await this.transition('POSTING', 'CONTENT_SCHEDULED');
+            await this.transition({ type: 'CONTENT_SCHEDULED', payload: { scheduledTime: schedule.toISOString() } });
 
             const postResult = await this.postContent(content, schedule);
-            await this.transition('MONITORING_ENGAGEMENT', 'CONTENT_POSTED');
+            await this.transition({ type: 'CONTENT_POSTED', payload: { tweetId: postResult } });
 
             return postResult;
         } catch (error) {
             console.error(chalk.red(`[error] Content creation failed`), error);
-            await this.transition('ERROR', 'CONTENT_CREATION_FAILED');
+            await this.transition({ type: 'CONTENT_CREATION_FAILED' });
             throw error;
         }
     }
@@ -317,12 +368,15 @@ Return tweet content as JSON including text, hashtags, and mentions.`;
 
     private async monitorEngagement() {
         try {
-            await this.transition('MONITORING_ENGAGEMENT', 'START_MONITORING');
-            await this.transition('ANALYZING_PERFORMANCE', 'ENGAGEMENT_MONITORED');
+            // A posted tweet leaves the machine monitoring already
+            if (!this.sm.isActive('MONITORING_ENGAGEMENT')) {
+                await this.transition({ type: 'START_MONITORING' });
+            }
+            await this.transition({ type: 'ENGAGEMENT_MONITORED' });
             await this.analyzePerformance();
         } catch (error) {
             console.error(chalk.red(`[error] Monitoring failed`), error);
-            await this.transition('ERROR', 'MONITORING_FAILED');
+            await this.transition({ type: 'MONITORING_FAILED' });
         }
     }
 
@@ -367,14 +421,14 @@ Return tweet content as JSON including text, hashtags, and mentions.`;
         const response = await prompt("You are a social media strategy expert.", analysisPrompt, 2000);
         const newStrategy = response.content[0].type === 'text' ? JSON.parse(response.content[0].text) : {};
 
-        await this.transition('ADJUSTING_STRATEGY', 'ANALYSIS_COMPLETE');
+        await this.transition({ type: 'ANALYSIS_COMPLETE' });
         currentState.strategy = newStrategy;
 
         for (const tweetId of Object.keys(currentState.engagement)) {
             await this.perceiveSentimentFromEngagement(tweetId);
         }
 
-        await this.transition('READY', 'STRATEGY_ADJUSTED');
+        await this.transition({ type: 'STRATEGY_ADJUSTED' });
     }
 
     stop() {
@@ -5,13 +5,15 @@
  * @module evolunary/swarm
  */
 
-import { PersonaSubAgent } from "src/agent/subagents/persona";
+import { PersonaSubAgent, retentionPolicyFor } from "src/agent/subagents/persona";
 import { Worker } from 'worker_threads';
+import { EventEmitter } from 'events';
 import path from 'path';
 import { AgentMailbox, AgentMessage, MessageResponse } from './mailbox';
 import { Agent, getAgentById } from '../agent/agent';
 import { SwarmPersistence } from './persistence';
-import { AgentStatus } from './types';
+import { AgentStatus, AgentStreamEvent } from './types';
+import { provisionAgentKey } from '../stateMachine/keys';
 
 /**
  * Bootstraps a swarm of Evolunary subagents using a common persona configuration
@@ -46,12 +48,16 @@ export class SwarmManager {
     private mailbox: AgentMailbox;
     private activeAgents: Set<string>;
     private persistence: SwarmPersistence;
+    private updates: EventEmitter;
 
     constructor() {
         this.workers = new Map();
         this.mailbox = new AgentMailbox();
         this.activeAgents = new Set();
         this.persistence = new SwarmPersistence();
+        this.updates = new EventEmitter();
+        // Every open event stream adds a listener
+        this.updates.setMaxListeners(0);
     }
 
     async initialize(): Promise<void> {
@@ -95,12 +101,24 @@ export class SwarmManager {
                 metadata: {}
             });
 
+            // Each agent signs with its own registered key
+            const privateKeyHex = await provisionAgentKey(agent.id);
+
             const worker = new Worker(path.join(__dirname, 'worker.js'), {
                 workerData: {
                     agentId: agent.id,
                     name: agent.name,
-                    privateKeyHex: process.env.AGENT_PRIVATE_KEY,
-                    persona: agent.initialPersona
+                    privateKeyHex,
+                    persona: agent.initialPersona,
+                    retention: retentionPolicyFor(agent.learningConfig),
+                    seed: agent.learningConfig?.seed,
+                    historyWindow: agent.learningConfig?.historyWindow,
+                    anchor: process.env.SOLANA_RPC_URL && process.env.AGENT_WALLET_KEY ? {
+                        rpcEndpoint: process.env.SOLANA_RPC_URL,
+                        walletKey: process.env.AGENT_WALLET_KEY,
+                        pairedWalletAddress: agent.pairedWalletAddress,
+                        intervalMs: Number(process.env.ANCHOR_INTERVAL_MS) || 60 * 60 * 1000
+                    } : undefined
                 }
             });
 
@@ -108,6 +126,9 @@ export class SwarmManager {
                 if (message.type === 'ready') {
                     this.activeAgents.add(agent.id);
                     await this.persistence.updateAgentStatus(agent.id, 'running');
+                    this.publish({ type: 'status', agentId: agent.id, status: 'running' });
+                } else if (message.type === 'transition') {
+                    this.publish({ type: 'transition', agentId: agent.id, transition: message.transition });
                 } else if (message.messageId) {
                     this.mailbox.sendResponse(message.messageId, message);
                 }
@@ -145,15 +166,19 @@ export class SwarmManager {
                     reject(new Error('Startup timeout'));
                 }, 30000);
 
-                worker.once('message', (message) => {
+                // Transitions made while the persona initializes arrive before the ready signal
+                const onReady = (message: any) => {
                     if (message.type === 'ready') {
                         clearTimeout(timeout);
+                        worker.off('message', onReady);
                         resolve();
                     }
-                });
+                };
+                worker.on('message', onReady);
             });
         } catch (error) {
             await this.persistence.updateAgentStatus(agent.id, 'error', error.message);
+            this.publish({ type: 'status', agentId: agent.id, status: 'error' });
             throw error;
         }
     }
@@ -165,9 +190,26 @@ export class SwarmManager {
             this.workers.delete(agentId);
             this.mailbox.unregisterAgent(agentId);
             this.activeAgents.delete(agentId);
+            this.publish({ type: 'status', agentId, status: 'stopped' });
         }
     }
 
+    /**
+     * Subscribes to an agent's status changes and committed transitions
+     * Transitions are forwarded from the agent's worker thread as they are persisted
+     * @returns Function that removes the subscription
+     */
+    subscribe(agentId: string, listener: (event: AgentStreamEvent) => void): () => void {
+        this.updates.on(`update:${agentId}`, listener);
+        return () => {
+            this.updates.off(`update:${agentId}`, listener);
+        };
+    }
+
+    private publish(event: AgentStreamEvent): void {
+        this.updates.emit(`update:${event.agentId}`, event);
+    }
+
     async sendMessage(agentId: string, message: AgentMessage): Promise<MessageResponse> {
         if (!this.activeAgents.has(agentId)) {
             throw new Error('Agent not active');
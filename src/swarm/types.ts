@@ -4,6 +4,8 @@
  * @module swarm/types
  */
 
+import type { CommittedTransition } from '../agent/sm';
+
 /**
  * Lifecycle status for an Evolunary subagent
  */
@@ -34,3 +36,10 @@ export interface SwarmLog {
     metadata?: Record<string, any>;    // Optional data payload (stack trace, config, etc.)
     timestamp: Date;                   // When the event was logged
 }
+
+/**
+ * Real-time update about an agent, forwarded from its worker thread or raised by the swarm manager
+ */
+export type AgentStreamEvent =
+    | { type: 'transition'; agentId: string; transition: CommittedTransition<string> }
+    | { type: 'status'; agentId: string; status: AgentStatus };
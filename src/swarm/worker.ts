@@ -6,7 +6,10 @@
  */
 
 import { parentPort, workerData } from 'worker_threads';
+import { Connection } from '@solana/web3.js';
 import { PersonaSubAgent } from '../subAgents/persona';
+import { SessionAnchorer, assertPairedWallet } from '../stateMachine/anchor';
+import { loadSolanaKeypair } from '../stateMachine/signer';
 
 /**
  * Message structure received from the main thread
@@ -18,14 +21,84 @@ interface WorkerMessage {
     metadata?: Record<string, any>;
 }
 
+/**
+ * Settings for anchoring the session's Merkle root on Solana
+ */
+interface AnchorSettings {
+    rpcEndpoint: string;
+    walletKey: string;             // Paired wallet keypair (solana-keygen JSON or hex)
+    pairedWalletAddress: string;
+    intervalMs: number;
+}
+
+/**
+ * Starts periodic anchoring of the agent's session, if configured
+ * Anchoring is optional, so a wallet that is not the paired one only disables it
+ */
+function startAnchoring(agentId: string, sessionId: string, settings?: AnchorSettings): void {
+    if (!settings) return;
+
+    try {
+        const wallet = loadSolanaKeypair(settings.walletKey);
+        assertPairedWallet(wallet, settings.pairedWalletAddress);
+
+        const anchorer = new SessionAnchorer(
+            new Connection(settings.rpcEndpoint, 'confirmed'),
+            wallet,
+            agentId,
+            sessionId,
+            settings.intervalMs
+        );
+        anchorer.start();
+    } catch (error) {
+        console.error(`[Agent ${agentId}] Merkle root anchoring disabled:`, error.message);
+    }
+}
+
+/**
+ * Executes an operator command against the running subagent
+ * @param args Command arguments, taken from the message metadata
+ */
+async function runCommand(agent: PersonaSubAgent, command: string, args: Record<string, any> = {}): Promise<string> {
+    switch (command) {
+        case 'rotate-key': {
+            const proof = await agent.rotateKey();
+            return JSON.stringify({ keyId: proof.keyId, stateHash: proof.stateHash });
+        }
+        case 'merge': {
+            const outcome = await agent.mergeVersions(args.ours, args.theirs, args.resolve);
+            return JSON.stringify(outcome);
+        }
+        case 'checkout': {
+            const checkout = await agent.checkoutVersion(args.version);
+            return JSON.stringify(checkout);
+        }
+        case 'restore': {
+            const version = await agent.restoreArchive(args.archiveId);
+            return JSON.stringify({ version });
+        }
+        default:
+            throw new Error(`Unrecognized command ${command}`);
+    }
+}
+
 async function runAgent() {
-    const { agentId, name, privateKeyHex, persona } = workerData;
+    const { agentId, name, privateKeyHex, persona, anchor, retention, seed, historyWindow } = workerData;
 
     try {
         // Boot and initialize subagent with given persona traits
-        const agent = new PersonaSubAgent(agentId, name, privateKeyHex);
+        const agent = new PersonaSubAgent(agentId, name, privateKeyHex, { retention, seed, historyWindow });
+
+        // Stream every committed transition to the main thread, starting with initialization
+        agent.onTransition(transition => {
+            parentPort?.postMessage({ type: 'transition', agentId, transition });
+        });
+
         await agent.init(persona);
 
+        // The persona machine's session is keyed by the agent name
+        startAnchoring(agentId, name, anchor);
+
         // Bind main-thread communication listener
         parentPort?.on('message', async (message: WorkerMessage) => {
             try {
@@ -33,7 +106,10 @@ async function runAgent() {
 
                 switch (message.type) {
                     case 'chat':
-                        response = await agent.processMessage(message.content);
+                        response = await agent.processMessage(message.content, message.metadata?.conversation);
+                        break;
+                    case 'command':
+                        response = await runCommand(agent, message.content, message.metadata);
                         break;
                     case 'system':
                         // Placeholder for Evolunary system-level commands
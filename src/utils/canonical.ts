@@ -0,0 +1,60 @@
+/**
+ * Evolunary Canonical Encoding
+ * Deterministic JSON serialization used wherever a value is hashed or signed
+ * @module utils/canonical
+ *
+ * - Object keys are emitted in sorted (code point) order
+ * - Dates are encoded as ISO-8601 UTC strings
+ * - Numbers use the shortest round-trip form; -0 becomes 0, non-finite values become null
+ * - Undefined values and functions are dropped from objects, and become null inside arrays
+ */
+
+function encode(value: any): string | undefined {
+  if (value === null) return 'null';
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  switch (typeof value) {
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'number':
+      if (!Number.isFinite(value)) return 'null';
+      return Object.is(value, -0) ? '0' : String(value);
+    case 'bigint':
+      return JSON.stringify(value.toString());
+    case 'string':
+      return JSON.stringify(value);
+  }
+
+  if (typeof value.toJSON === 'function') {
+    return encode(value.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => encode(item) ?? 'null').join(',')}]`;
+  }
+
+  const members = Object.keys(value)
+    .sort()
+    .map(key => {
+      const encoded = encode(value[key]);
+      return encoded === undefined ? undefined : `${JSON.stringify(key)}:${encoded}`;
+    })
+    .filter(member => member !== undefined);
+
+  return `{${members.join(',')}}`;
+}
+
+/**
+ * Serializes a value into its canonical JSON form.
+ * Two structurally equal values always produce byte-identical output.
+ */
+export function canonicalize(value: any): string {
+  return encode(value) ?? 'null';
+}
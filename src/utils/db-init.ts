@@ -4,7 +4,7 @@ import sql from './sql';
  * Evolunary Database Bootstrap Module
  * @module database/init
  * 
- * Sets up required tables for users, agents, and swarm operations.
+ * Sets up required tables for users, agents, swarm operations and transition proofs.
  */
 
 export async function initializeDatabase() {
@@ -13,6 +13,7 @@ export async function initializeDatabase() {
             initUserTables(),
             initAgentTables(),
             initSwarmTables(),
+            initExecutionTables(),
         ]);
     } catch (error) {
         throw error;
@@ -100,8 +101,94 @@ async function initAgentTables() {
         )
     `;
 
+    // Selection statistics of each version in its evolution tree
+    await sql`ALTER TABLE agent_personas ADD COLUMN IF NOT EXISTS fitness DOUBLE PRECISION`;
+    await sql`ALTER TABLE agent_personas ADD COLUMN IF NOT EXISTS evaluations INTEGER NOT NULL DEFAULT 0`;
+    await sql`ALTER TABLE agent_personas ADD COLUMN IF NOT EXISTS visits INTEGER NOT NULL DEFAULT 0`;
+
+    // Version merged in to produce a persona, for versions created by a three-way merge
+    await sql`ALTER TABLE agent_personas ADD COLUMN IF NOT EXISTS merged_from TEXT`;
+
+    // Version each persona was evolved or merged from, so the tree is rebuilt with its real shape
+    await sql`ALTER TABLE agent_personas ADD COLUMN IF NOT EXISTS parent_version TEXT`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_personas_parent ON agent_personas(agent_id, session_id, parent_version)`;
+
+    // Hash of each persona's data and its parent's hash, referenced by the proofs that committed to it
+    await sql`ALTER TABLE agent_personas ADD COLUMN IF NOT EXISTS content_hash TEXT`;
+
     await sql`CREATE INDEX IF NOT EXISTS idx_personas_agent ON agent_personas(agent_id)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_personas_version ON agent_personas(version)`;
+
+    // Pruned persona subtrees, one row per subtree, restorable into agent_personas
+    await sql`
+        CREATE TABLE IF NOT EXISTS persona_archives (
+            id TEXT PRIMARY KEY,
+            agent_id TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+            session_id TEXT NOT NULL,
+            parent_version TEXT NOT NULL,
+            root_version TEXT NOT NULL,
+            versions TEXT[] NOT NULL,
+            tree JSONB NOT NULL,
+            archived_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS idx_persona_archives_session ON persona_archives(agent_id, session_id)`;
+
+    // Current persona version of each session, moved by evolution, merges and checkouts
+    await sql`
+        CREATE TABLE IF NOT EXISTS persona_heads (
+            agent_id TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+            session_id TEXT NOT NULL,
+            version TEXT NOT NULL,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            PRIMARY KEY (agent_id, session_id)
+        )
+    `;
+
+    // Evolution cycles with their seed, model transcript and tree snapshots, for replay
+    await sql`
+        CREATE TABLE IF NOT EXISTS evolution_runs (
+            id TEXT PRIMARY KEY,
+            agent_id TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+            session_id TEXT NOT NULL,
+            seed BIGINT NOT NULL,
+            selection JSONB NOT NULL,
+            retention JSONB,
+            parent_version TEXT NOT NULL,
+            new_version TEXT NOT NULL,
+            calls JSONB NOT NULL,
+            tree_before JSONB NOT NULL,
+            tree_after JSONB NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS idx_evolution_runs_session ON evolution_runs(agent_id, session_id)`;
+
+    // Per-user chat threads, with a running summary of the exchanges no longer sent verbatim
+    await sql`
+        CREATE TABLE IF NOT EXISTS conversations (
+            id TEXT PRIMARY KEY,
+            agent_id TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+            session_id TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            summary TEXT,
+            summarized_exchanges INTEGER NOT NULL DEFAULT 0,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(agent_id, user_id)`;
+
+    await sql`
+        CREATE TABLE IF NOT EXISTS conversation_exchanges (
+            conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+            seq INTEGER NOT NULL,
+            message TEXT NOT NULL,
+            reply TEXT NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            PRIMARY KEY (conversation_id, seq)
+        )
+    `;
 }
 
 async function initSwarmTables() {
@@ -134,3 +221,82 @@ async function initSwarmTables() {
     await sql`CREATE INDEX IF NOT EXISTS idx_swarm_logs_agent ON swarm_logs(agent_id)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_swarm_logs_timestamp ON swarm_logs(timestamp)`;
 }
+
+async function initExecutionTables() {
+    await sql`
+        CREATE TABLE IF NOT EXISTS execution_logs (
+            id BIGSERIAL PRIMARY KEY,
+            agent_id TEXT NOT NULL,
+            session_id TEXT NOT NULL,
+            from_state TEXT NOT NULL,
+            to_state TEXT NOT NULL,
+            action TEXT NOT NULL,
+            params JSONB,
+            proof JSONB NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+    `;
+
+    await sql`CREATE INDEX IF NOT EXISTS idx_execution_logs_session ON execution_logs(agent_id, session_id, id)`;
+
+    await sql`
+        CREATE TABLE IF NOT EXISTS transition_logs (
+            id BIGSERIAL PRIMARY KEY,
+            level TEXT NOT NULL,
+            agent_id TEXT NOT NULL,
+            session_id TEXT NOT NULL,
+            from_state TEXT NOT NULL,
+            to_state TEXT NOT NULL,
+            action TEXT NOT NULL,
+            record JSONB NOT NULL,
+            logged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+        )
+    `;
+
+    await sql`CREATE INDEX IF NOT EXISTS idx_transition_logs_session ON transition_logs(agent_id, session_id, logged_at)`;
+
+    await sql`
+        CREATE TABLE IF NOT EXISTS merkle_frontiers (
+            agent_id TEXT NOT NULL,
+            session_id TEXT NOT NULL,
+            size INTEGER NOT NULL,
+            peaks JSONB NOT NULL DEFAULT '[]',
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            PRIMARY KEY (agent_id, session_id)
+        )
+    `;
+
+    await sql`
+        CREATE TABLE IF NOT EXISTS merkle_anchors (
+            id BIGSERIAL PRIMARY KEY,
+            agent_id TEXT NOT NULL,
+            session_id TEXT NOT NULL,
+            merkle_root TEXT NOT NULL,
+            size INTEGER NOT NULL,
+            first_log_id BIGINT NOT NULL,
+            last_log_id BIGINT NOT NULL,
+            signature TEXT NOT NULL UNIQUE,
+            wallet_address TEXT NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+    `;
+
+    await sql`CREATE INDEX IF NOT EXISTS idx_merkle_anchors_session ON merkle_anchors(agent_id, session_id, last_log_id)`;
+
+    await sql`
+        CREATE TABLE IF NOT EXISTS agent_keys (
+            agent_id TEXT NOT NULL,
+            key_id TEXT NOT NULL,
+            generation INTEGER NOT NULL DEFAULT 0,
+            algorithm TEXT NOT NULL,
+            public_key TEXT NOT NULL,
+            valid_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            valid_until TIMESTAMP WITH TIME ZONE,
+            rotated_to TEXT,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            PRIMARY KEY (agent_id, key_id)
+        )
+    `;
+
+    await sql`CREATE INDEX IF NOT EXISTS idx_agent_keys_current ON agent_keys(agent_id) WHERE valid_until IS NULL`;
+}
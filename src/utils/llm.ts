@@ -97,3 +97,25 @@ export async function prompt(system: string, promptText: string, maxTokens: numb
 
   return response;
 }
+
+/**
+ * A prior turn of a conversation
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Multi-turn Claude prompt: sends earlier turns before the new message
+ */
+export async function converse(system: string, history: ChatMessage[], promptText: string, maxTokens: number = 2000) {
+  const response = await anthropic.messages.create({
+    model: 'claude-3-5-sonnet-latest',
+    system,
+    max_tokens: maxTokens,
+    messages: [...history, { role: 'user', content: promptText }]
+  });
+
+  return response;
+}